@@ -1,102 +1,222 @@
 "use client";
 
-import TreeView, {
-  type TreeViewItem,
-  getCheckState,
-} from "@/components/tree-view"; // Import getCheckState
-import { useCallback, useEffect, useMemo, useState } from "react";
+import TreeDiffView from "@/components/tree-diff-view";
+import type {
+  TreeViewColumn,
+  TreeViewDropPosition,
+  TreeViewItem,
+  TreeViewMenuItem,
+  TreeViewSortOrder,
+} from "@/components/tree-view";
+import TreeTransfer from "@/components/tree-transfer";
+import { Button } from "@/components/ui/button";
+import { useTreeState } from "@/hooks/use-tree-state";
+import type { TreeSelectionDescriptor } from "@/lib/tree-selection";
+import { canToggleCheck, getAncestorIds } from "@/lib/tree-utils";
+import { useCallback, useState } from "react";
 
-// Helper function to build a map of all items by ID
-const buildItemMap = (items: TreeViewItem[]): Map<string, TreeViewItem> => {
-  const map = new Map<string, TreeViewItem>();
-  const processItem = (item: TreeViewItem) => {
-    map.set(item.id, item);
-    item.children?.forEach(processItem);
-  };
-  items.forEach(processItem);
-  return map;
-};
+// What the tables carry in `meta`
+interface ObjectMeta {
+  owner?: string;
+  columns?: string[];
+}
 
-// Helper function to deep clone data
-const deepCloneData = (data: TreeViewItem[]): TreeViewItem[] => {
-  return data.map((item) => ({
-    ...item,
-    children: item.children ? deepCloneData(item.children) : undefined,
-  }));
+// Children of every folder as the simulated server knows them
+const serverChildren: Record<string, TreeViewItem<ObjectMeta>[]> = {
+  "1": [
+    {
+      id: "1.1",
+      name: "Schema Public",
+      type: "folder",
+      children: [],
+      loaded: false,
+    },
+    {
+      id: "1.2",
+      name: "Schema Analytics",
+      type: "folder",
+      children: [],
+      loaded: false,
+    },
+    {
+      id: "1.4",
+      name: "Schema System",
+      type: "folder",
+      children: [],
+      loaded: false,
+      disabled: true, // No rights on the system schema
+    },
+    { id: "1.3", name: "Database Config", type: "file", locked: true },
+  ],
+  "1.1": [
+    {
+      id: "1.1.1",
+      name: "users",
+      type: "table",
+      checked: false,
+      meta: { owner: "app", columns: ["id", "email", "name"] }, // Listed in the info card
+    },
+    {
+      id: "1.1.2",
+      name: "products",
+      type: "table",
+      meta: { owner: "catalog" },
+    },
+    { id: "1.1.3", name: "orders", type: "table", meta: { owner: "app" } },
+    {
+      id: "1.1.4",
+      name: "get_user_by_id",
+      type: "function",
+      checkable: false, // Functions can't be exported
+    },
+  ],
+  "1.2": [
+    { id: "1.2.1", name: "daily_sales", type: "view" },
+    { id: "1.2.2", name: "customer_segments", type: "table" },
+  ],
+  "1.4": [
+    { id: "1.4.1", name: "pg_settings", type: "view", disabled: true },
+    { id: "1.4.2", name: "pg_roles", type: "view", disabled: true },
+  ],
+  "2": [
+    {
+      id: "2.1",
+      name: "Schema HR",
+      type: "folder",
+      children: [],
+      loaded: false,
+    },
+  ],
+  "2.1": [
+    { id: "2.1.1", name: "employees", type: "table" },
+    { id: "2.1.2", name: "departments", type: "table" },
+  ],
 };
 
-// Helper to update checked state recursively for children
-const updateChildrenCheckedState = (
-  items: TreeViewItem[],
-  checked: boolean
-) => {
-  items.forEach((child) => {
-    child.checked = checked;
-    if (child.children) {
-      updateChildrenCheckedState(child.children, checked);
-    }
+// Resolve after a simulated network delay, or reject once aborted
+const simulateRequest = <T,>(signal: AbortSignal, getResult: () => T) =>
+  new Promise<T>((resolve, reject) => {
+    const timeout = setTimeout(() => resolve(getResult()), 700); // Simulate network delay
+    // Stop the simulated request when it is no longer needed
+    signal.addEventListener("abort", () => {
+      clearTimeout(timeout);
+      reject(signal.reason);
+    });
   });
-};
 
 // Simulate an API call to fetch children
-const fetchChildren = async (parentId: string): Promise<TreeViewItem[]> => {
-  console.log(`Fetching children for ${parentId}...`);
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      let children: TreeViewItem[] = [];
-      if (parentId === "1.1") {
-        children = [
-          { id: "1.1.1", name: "users", type: "table", checked: false },
-          { id: "1.1.2", name: "products", type: "table" },
-          { id: "1.1.3", name: "orders", type: "table" },
-          { id: "1.1.4", name: "get_user_by_id", type: "function" },
-        ];
-      } else if (parentId === "1.2") {
-        children = [
-          { id: "1.2.1", name: "daily_sales", type: "view" },
-          { id: "1.2.2", name: "customer_segments", type: "table" },
-        ];
-      } else if (parentId === "2.1") {
-        children = [
-          { id: "2.1.1", name: "employees", type: "table" },
-          { id: "2.1.2", name: "departments", type: "table" },
-        ];
-      } else if (parentId === "1") {
-        children = [
-          {
-            id: "1.1",
-            name: "Schema Public",
-            type: "folder",
-            children: [],
-            loaded: false,
-          },
-          {
-            id: "1.2",
-            name: "Schema Analytics",
-            type: "folder",
-            children: [],
-            loaded: false,
-          },
-          { id: "1.3", name: "Database Config", type: "file" },
-        ];
-      } else if (parentId === "2") {
-        children = [
-          {
-            id: "2.1",
-            name: "Schema HR",
-            type: "folder",
-            children: [],
-            loaded: false,
-          },
-        ];
-      }
-      resolve(children);
-    }, 700); // Simulate network delay
+const fetchChildren = async (
+  item: TreeViewItem,
+  { signal }: { signal: AbortSignal }
+): Promise<TreeViewItem[]> => {
+  console.log(`Fetching children for ${item.id}...`);
+  return simulateRequest(signal, () => serverChildren[item.id] ?? []);
+};
+
+// Simulate fetching table statistics for the info card, other nodes have none
+const fetchDetails = async (
+  item: TreeViewItem,
+  { signal }: { signal: AbortSignal }
+) =>
+  item.type === "table"
+    ? simulateRequest(signal, () => ({
+        rowCount: item.name.length * 1234,
+        sizeOnDisk: `${item.name.length * 48} kB`,
+      }))
+    : null;
+
+// Simulate a server-side search over everything, loaded or not. Resolves to
+// the chain of nodes from the root down to each match.
+const searchObjects = async (
+  query: string,
+  { signal }: { signal: AbortSignal }
+): Promise<TreeViewItem[][]> => {
+  return simulateRequest(signal, () => {
+    const paths: TreeViewItem[][] = [];
+    const searchLevel = (items: TreeViewItem[], path: TreeViewItem[]) => {
+      items.forEach((item) => {
+        if (item.name.toLowerCase().includes(query.toLowerCase())) {
+          paths.push([...path, item]);
+        }
+        searchLevel(serverChildren[item.id] ?? [], [...path, item]);
+      });
+    };
+    searchLevel(initialData, []);
+    return paths;
   });
 };
 
+// Context menu for the left tree, entries depend on the clicked node's type
+const menuItems: TreeViewMenuItem[] = [
+  {
+    id: "copy-name",
+    label: "Copy name",
+    shortcut: "⌘C",
+    action: (items) =>
+      navigator.clipboard.writeText(items.map((item) => item.name).join("\n")),
+  },
+  {
+    id: "script-as",
+    type: "submenu",
+    label: "Script as",
+    hidden: (item) => item.type !== "table" && item.type !== "view",
+    items: [
+      { id: "script-select", label: "SELECT" },
+      { id: "script-create", label: "CREATE" },
+      { id: "script-drop", label: "DROP" },
+    ],
+  },
+  { id: "separator", type: "separator" },
+  {
+    id: "drop",
+    label: "Drop",
+    variant: "destructive",
+    disabled: (item) => item.type === "folder",
+  },
+];
+
+// Statements the "Script as" entries copy, by menu item id
+const scripts: Record<string, (item: TreeViewItem) => string> = {
+  "script-select": (item) => `SELECT * FROM "${item.name}";`,
+  "script-create": (item) =>
+    item.type === "view"
+      ? `CREATE VIEW "${item.name}" AS SELECT 1;`
+      : `CREATE TABLE "${item.name}" ();`,
+  "script-drop": (item) => `DROP ${item.type.toUpperCase()} "${item.name}";`,
+};
+
+// Extra columns of the left tree, the column count starts hidden
+const objectColumns: TreeViewColumn<ObjectMeta>[] = [
+  { id: "type", header: "Type", accessor: (item) => item.type, width: 88 },
+  {
+    id: "owner",
+    header: "Owner",
+    accessor: (item) => item.meta?.owner,
+    width: 96,
+  },
+  {
+    id: "columns",
+    header: "Columns",
+    accessor: (item) => item.meta?.columns?.length,
+    align: "right",
+    width: 80,
+    hidden: true,
+  },
+];
+
+// Schemas before loose objects, then by name
+const objectSort: TreeViewSortOrder[] = ["folders-first", "natural"];
+
+// Folders can change parents but not be nested into one another. The sort
+// decides the order of siblings, so moves between them are turned off.
+const canDrop = (
+  dragged: TreeViewItem,
+  _target: TreeViewItem,
+  position: TreeViewDropPosition
+) => position !== "inside" || dragged.type !== "folder";
+
 // Initial data with some folders marked for lazy loading
-const initialData: TreeViewItem[] = [
+const initialData: TreeViewItem<ObjectMeta>[] = [
   {
     id: "1",
     name: "Database A",
@@ -115,302 +235,143 @@ const initialData: TreeViewItem[] = [
 ];
 
 export default function TreeViewDemo() {
-  const [internalData, setInternalData] = useState<TreeViewItem[]>(() =>
-    deepCloneData(initialData)
-  );
-  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
-
-  // Create a map of all items by ID from internalData
-  const itemMap = useMemo(() => buildItemMap(internalData), [internalData]);
-
-  // Get all checked items
-  const getCheckedItems = useCallback(
-    (dataToProcess: TreeViewItem[] = internalData): TreeViewItem[] => {
-      const items: TreeViewItem[] = [];
-      const processItem = (item: TreeViewItem) => {
-        if (item.checked) {
-          items.push(item);
-        }
-        item.children?.forEach(processItem);
-      };
-      dataToProcess.forEach(processItem);
-      return items;
-    },
-    [internalData]
-  );
-
-  const handleToggleExpand = useCallback(
-    (id: string, isOpen: boolean, item: TreeViewItem) => {
-      setExpandedIds((prev) => {
-        const newExpandedIds = new Set(prev);
-        if (isOpen) {
-          newExpandedIds.add(id);
-        } else {
-          newExpandedIds.delete(id);
-        }
-        return newExpandedIds;
-      });
+  const treeState = useTreeState(initialData, {
+    loadChildren: fetchChildren,
+    persistKey: "tree-view-demo", // Survives reloads, and ?tree-view-demo=… links restore it
+    persistInUrl: true,
+  });
+  const {
+    data: internalData,
+    itemMap,
+    moveItems,
+    insertItem,
+    removeItem,
+    updateItem,
+    exportSelection,
+    importSelection,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = treeState;
+  const [savedSelection, setSavedSelection] =
+    useState<TreeSelectionDescriptor | null>(null);
+  // What the right-hand diff compares the current data to
+  const [snapshot, setSnapshot] = useState(internalData);
 
-      // If expanding a folder that hasn't loaded its children yet
+  // Simulate saving a rename, names have to be unique within a folder
+  const handleRename = useCallback(
+    async (item: TreeViewItem, name: string) => {
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      const parentId = getAncestorIds(internalData, item.id)[0];
+      const siblings = parentId
+        ? (itemMap.get(parentId)?.children ?? [])
+        : internalData;
       if (
-        isOpen &&
-        item.children &&
-        item.children.length === 0 &&
-        !item.loaded &&
-        !item.loading
+        siblings.some(
+          (sibling) => sibling.id !== item.id && sibling.name === name
+        )
       ) {
-        setInternalData((prevData) => {
-          const newData = deepCloneData(prevData);
-          const targetItem = newData.find((node) => node.id === item.id); // Find top-level item
-          if (targetItem) {
-            // For nested items, you'd need a recursive find-and-update
-            const findAndSetLoading = (
-              nodes: TreeViewItem[],
-              targetId: string
-            ): boolean => {
-              for (const node of nodes) {
-                if (node.id === targetId) {
-                  node.loading = true;
-                  return true;
-                }
-                if (
-                  node.children &&
-                  findAndSetLoading(node.children, targetId)
-                ) {
-                  return true;
-                }
-              }
-              return false;
-            };
-            findAndSetLoading(newData, item.id);
-          }
-          return newData;
-        });
-
-        fetchChildren(item.id)
-          .then((children) => {
-            setInternalData((prevData) => {
-              const newData = deepCloneData(prevData);
-              const updateItemChildren = (
-                nodes: TreeViewItem[],
-                targetId: string
-              ): boolean => {
-                for (const node of nodes) {
-                  if (node.id === targetId) {
-                    node.children = children;
-                    node.loaded = true;
-                    node.loading = false;
-                    return true;
-                  }
-                  if (
-                    node.children &&
-                    updateItemChildren(node.children, targetId)
-                  ) {
-                    return true;
-                  }
-                }
-                return false;
-              };
-              updateItemChildren(newData, item.id);
-              return newData;
-            });
-          })
-          .catch((error) => {
-            console.error("Failed to load children:", error);
-            setInternalData((prevData) => {
-              const newData = deepCloneData(prevData);
-              const findAndSetLoadingFalse = (
-                nodes: TreeViewItem[],
-                targetId: string
-              ): boolean => {
-                for (const node of nodes) {
-                  if (node.id === targetId) {
-                    node.loading = false;
-                    return true;
-                  }
-                  if (
-                    node.children &&
-                    findAndSetLoadingFalse(node.children, targetId)
-                  ) {
-                    return true;
-                  }
-                }
-                return false;
-              };
-              findAndSetLoadingFalse(newData, item.id);
-              return newData;
-            });
-          });
+        throw new Error(`"${name}" already exists in this folder`);
       }
+      updateItem(item.id, { name });
     },
-    [] // No dependencies, setExpandedIds and setInternalData are stable
+    [internalData, itemMap, updateItem]
   );
 
-  const handleCheckChange = useCallback(
-    (item: TreeViewItem, checked: boolean) => {
-      setInternalData((prevData) => {
-        const newData = deepCloneData(prevData); // Create a deep copy
-        const newItemMap = buildItemMap(newData); // Rebuild map for new data
-
-        // Find the item in the new data structure and update its checked state
-        const updateItemInTree = (
-          items: TreeViewItem[],
-          id: string,
-          newChecked: boolean
-        ): boolean => {
-          for (const currentItem of items) {
-            if (currentItem.id === id) {
-              currentItem.checked = newChecked;
-              if (currentItem.children) {
-                updateChildrenCheckedState(currentItem.children, newChecked);
-              }
-              return true;
-            }
-            if (
-              currentItem.children &&
-              updateItemInTree(currentItem.children, id, newChecked)
-            ) {
-              return true;
-            }
-          }
-          return false;
-        };
-
-        updateItemInTree(newData, item.id, checked);
-
-        // After updating the item and its children, update ancestors
-        let current = newItemMap.get(item.id);
-        while (current) {
-          const parent = Array.from(newItemMap.values()).find(
-            (node) =>
-              node.children &&
-              node.children.some((child) => child.id === current?.id)
-          );
-          if (parent) {
-            const parentState = getCheckState(parent, newItemMap);
-            parent.checked = parentState === "checked"; // Only set to true if all children are checked
-          }
-          current = parent;
-        }
-
-        return newData;
-      });
-    },
-    [] // No dependencies, setInternalData is stable
-  );
-
-  // Function to filter the tree to show only selected items and their necessary ancestors
-  const getFilteredSelectedTree = useCallback(
-    (items: TreeViewItem[]): TreeViewItem[] => {
-      const filtered: TreeViewItem[] = [];
-      const allCurrentCheckedItems = getCheckedItems(internalData); // Get checked items from the current internalData
-      const checkedItemIds = new Set(
-        allCurrentCheckedItems.map((item) => item.id)
-      );
-
-      for (const item of items) {
-        const originalItem = itemMap.get(item.id);
-        if (!originalItem) continue;
-
-        if (originalItem.children && originalItem.children.length > 0) {
-          // It's a folder, recursively filter its children
-          const filteredChildren = getFilteredSelectedTree(
-            originalItem.children
-          );
-
-          // Include folder if it's checked itself OR has any checked descendants
-          if (
-            checkedItemIds.has(originalItem.id) ||
-            filteredChildren.length > 0
-          ) {
-            filtered.push({
-              ...originalItem,
-              children: filteredChildren,
-              // The checked state for the displayed item should be its original state
-              checked: originalItem.checked,
-              loaded: true, // Mark as loaded for display purposes in the right tree
-            });
-          }
-        } else {
-          // It's a leaf node
-          if (checkedItemIds.has(originalItem.id)) {
-            filtered.push({ ...originalItem, checked: true, loaded: true }); // Ensure leaf is marked checked if it's selected
-          }
-        }
+  // Menu entries without an action of their own
+  const handleAction = useCallback(
+    (action: string, items: TreeViewItem[]) => {
+      const script = scripts[action];
+      if (script) {
+        navigator.clipboard.writeText(items.map(script).join("\n"));
+      } else if (action === "drop") {
+        // Locked and disabled objects stay, even when they are checked
+        items
+          .filter((item) => item.type !== "folder" && canToggleCheck(item))
+          .forEach((item) => removeItem(item.id));
       }
-      return filtered;
-    },
-    [getCheckedItems, internalData, itemMap]
-  );
-
-  const filteredSelectedData = useMemo(
-    () => getFilteredSelectedTree(internalData),
-    [internalData, getFilteredSelectedTree]
-  );
-
-  // Automatically expand all nodes in the right tree for display
-  const [rightTreeExpandedIds, setRightTreeExpandedIds] = useState<Set<string>>(
-    new Set()
-  );
-
-  useEffect(() => {
-    const allFolderIds = (items: TreeViewItem[]): string[] => {
-      let ids: string[] = [];
-      items.forEach((item) => {
-        if (item.children) {
-          ids.push(item.id);
-          ids = [...ids, ...allFolderIds(item.children)];
-        }
-      });
-      return ids;
-    };
-    setRightTreeExpandedIds(new Set(allFolderIds(filteredSelectedData)));
-  }, [filteredSelectedData]);
-
-  const handleRightTreeToggleExpand = useCallback(
-    (id: string, isOpen: boolean) => {
-      setRightTreeExpandedIds((prev) => {
-        const newExpandedIds = new Set(prev);
-        if (isOpen) {
-          newExpandedIds.add(id);
-        } else {
-          newExpandedIds.delete(id);
-        }
-        return newExpandedIds;
-      });
     },
-    []
+    [removeItem]
   );
 
   return (
     <div className="flex min-h-screen items-center justify-center bg-gray-100 p-4 gap-8">
-      {/* Left Tree: Selection */}
-      <TreeView
-        data={internalData}
-        title="Choose Database Objects"
-        showCheckboxes={true}
-        searchPlaceholder="Search objects..."
-        onCheckChange={handleCheckChange}
-        expandedIds={expandedIds}
-        onToggleExpand={handleToggleExpand}
-        itemMap={itemMap}
-        getCheckedItems={getCheckedItems}
-        setExpandedIds={setExpandedIds} // Pass setExpandedIds
-      />
+      {/* Source and selected trees */}
+      <div className="flex flex-col gap-2">
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setSavedSelection(exportSelection())}
+          >
+            Save selection
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!savedSelection}
+            onClick={() => savedSelection && importSelection(savedSelection)}
+          >
+            Restore selection
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!canUndo}
+            onClick={undo}
+          >
+            Undo
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!canRedo}
+            onClick={redo}
+          >
+            Redo
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setSnapshot(internalData)}
+          >
+            Take snapshot
+          </Button>
+        </div>
+        <TreeTransfer
+          state={treeState}
+          sourceTitle="Choose Database Objects"
+          targetTitle="Selected Objects"
+          sourceProps={{
+            menuItems,
+            columns: objectColumns,
+            sort: objectSort,
+            groupByType: true,
+            onAction: handleAction,
+            onMove: moveItems,
+            canDrop,
+            onRename: handleRename,
+            onCreate: (parent, item) => insertItem(parent.id, item),
+            onDelete: (items) => items.forEach((item) => removeItem(item.id)),
+            searchPlaceholder: "Search objects...",
+            searchMatcher: "fuzzy",
+            onSearch: searchObjects,
+            loadDetails: fetchDetails,
+            showExport: true,
+          }}
+          targetProps={{
+            searchPlaceholder: "Filter selected objects...", // Can still search within selected
+            showExport: true, // Hand the chosen objects on as JSON, CSV, Markdown or Mermaid
+          }}
+        />
+      </div>
 
-      {/* Right Tree: Display Selected */}
-      <TreeView
-        data={filteredSelectedData}
-        title="Selected Objects"
-        showCheckboxes={false} // Disable checkboxes for display
-        showExpandAll={false} // No expand/collapse all buttons for display
-        searchPlaceholder="Filter selected objects..." // Can still search within selected
-        onCheckChange={() => {}} // No-op for check changes
-        expandedIds={rightTreeExpandedIds} // Use separate expanded state for right tree
-        onToggleExpand={handleRightTreeToggleExpand} // Use separate toggle for right tree
-        itemMap={itemMap} // Still use the original itemMap for path generation
-        getCheckedItems={getCheckedItems}
-        setExpandedIds={setRightTreeExpandedIds} // Pass setExpandedIds for right tree
+      {/* Changes since the last snapshot */}
+      <TreeDiffView
+        before={snapshot}
+        after={internalData}
+        title="Changes Since Snapshot"
       />
     </div>
   );
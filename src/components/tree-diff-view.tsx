@@ -0,0 +1,210 @@
+import TreeView, {
+  type TreeViewIconMap,
+  type TreeViewItem,
+  type TreeViewItemDecoration,
+} from "@/components/tree-view";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  type TreeDiffChange,
+  type TreeDiffKind,
+  diffTrees,
+  filterChangedItems,
+  getFoldersWithChanges,
+} from "@/lib/tree-diff";
+import { buildItemMap } from "@/lib/tree-utils";
+import { cn } from "@/lib/utils";
+import type { JSX } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+interface TreeDiffViewProps {
+  before: TreeViewItem[];
+  after: TreeViewItem[];
+  title?: string;
+  className?: string;
+  getIcon?: (item: TreeViewItem, depth: number) => JSX.Element;
+  iconMap?: TreeViewIconMap;
+  defaultOnlyChanges?: boolean; // Start with unchanged nodes hidden
+  virtualize?: boolean;
+  height?: number;
+}
+
+// Name color and badge color per kind of change
+const kindStyles: Record<
+  TreeDiffKind,
+  { label: string; nameClassName: string; badgeClassName: string }
+> = {
+  added: {
+    label: "Added",
+    nameClassName: "text-green-600",
+    badgeClassName: "border-green-600/40 text-green-700",
+  },
+  removed: {
+    label: "Removed",
+    nameClassName: "text-red-600 line-through",
+    badgeClassName: "border-red-600/40 text-red-700",
+  },
+  renamed: {
+    label: "Renamed",
+    nameClassName: "text-amber-600",
+    badgeClassName: "border-amber-600/40 text-amber-700",
+  },
+  "type-changed": {
+    label: "Type changed",
+    nameClassName: "text-blue-600",
+    badgeClassName: "border-blue-600/40 text-blue-700",
+  },
+  moved: {
+    label: "Moved",
+    nameClassName: "text-purple-600",
+    badgeClassName: "border-purple-600/40 text-purple-700",
+  },
+};
+
+const diffKinds = Object.keys(kindStyles) as TreeDiffKind[];
+
+const noCheckedItems = (): TreeViewItem[] => [];
+
+// Shows `after` with the differences to `before` marked: added, removed,
+// renamed, type-changed and moved nodes, matched by id. Removed nodes are
+// shown where they used to be.
+export default function TreeDiffView({
+  before,
+  after,
+  title = "Changes",
+  className,
+  getIcon,
+  iconMap,
+  defaultOnlyChanges = false,
+  virtualize,
+  height,
+}: TreeDiffViewProps): JSX.Element {
+  const [onlyChanges, setOnlyChanges] = useState(defaultOnlyChanges);
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+
+  const diff = useMemo(() => diffTrees(before, after), [before, after]);
+  const data = useMemo(
+    () =>
+      onlyChanges ? filterChangedItems(diff.items, diff.changes) : diff.items,
+    [diff, onlyChanges]
+  );
+  const itemMap = useMemo(() => buildItemMap(data), [data]);
+
+  const counts = useMemo(() => {
+    const byKind = new Map<TreeDiffKind, number>();
+    diff.changes.forEach(({ kinds }) =>
+      kinds.forEach((kind) => byKind.set(kind, (byKind.get(kind) ?? 0) + 1))
+    );
+    return byKind;
+  }, [diff]);
+
+  // Open the folders leading to changes whenever the snapshots change
+  useEffect(() => {
+    const folderIds = getFoldersWithChanges(diff.items, diff.changes);
+    setExpandedIds((prev) => new Set([...prev, ...folderIds]));
+  }, [diff]);
+
+  const handleToggleExpand = useCallback((id: string, isOpen: boolean) => {
+    setExpandedIds((prev) => {
+      const newExpandedIds = new Set(prev);
+      if (isOpen) {
+        newExpandedIds.add(id);
+      } else {
+        newExpandedIds.delete(id);
+      }
+      return newExpandedIds;
+    });
+  }, []);
+
+  const describeChange = useCallback(
+    (kind: TreeDiffKind, change: TreeDiffChange) => {
+      switch (kind) {
+        case "renamed":
+          return `was ${change.previousName}`;
+        case "type-changed":
+          return `was ${change.previousType}`;
+        case "moved": {
+          const previousParent =
+            change.previousParentId != null
+              ? diff.previous.get(change.previousParentId)
+              : undefined;
+          return `from ${previousParent?.name ?? "top level"}`;
+        }
+        default:
+          return kindStyles[kind].label.toLowerCase();
+      }
+    },
+    [diff]
+  );
+
+  const getItemDecoration = useCallback(
+    (item: TreeViewItem): TreeViewItemDecoration | undefined => {
+      const change = diff.changes.get(item.id);
+      if (!change) return undefined;
+      return {
+        // Added and removed come alone, otherwise the first kind colors the name
+        className: kindStyles[change.kinds[0]].nameClassName,
+        label: (
+          <span className="ml-2 inline-flex gap-1 align-middle">
+            {change.kinds.map((kind) => (
+              <Badge
+                key={kind}
+                variant="outline"
+                className={kindStyles[kind].badgeClassName}
+              >
+                {describeChange(kind, change)}
+              </Badge>
+            ))}
+          </span>
+        ),
+      };
+    },
+    [diff, describeChange]
+  );
+
+  return (
+    <div className={cn("flex flex-col gap-2", className)}>
+      <div className="flex items-center gap-2 flex-wrap">
+        {diff.changes.size === 0 ? (
+          <span className="text-sm text-muted-foreground">No changes</span>
+        ) : (
+          diffKinds
+            .filter((kind) => counts.has(kind))
+            .map((kind) => (
+              <Badge
+                key={kind}
+                variant="outline"
+                className={kindStyles[kind].badgeClassName}
+              >
+                {counts.get(kind)} {kindStyles[kind].label.toLowerCase()}
+              </Badge>
+            ))
+        )}
+        <Button
+          variant={onlyChanges ? "secondary" : "outline"}
+          size="sm"
+          className="ml-auto"
+          aria-pressed={onlyChanges}
+          onClick={() => setOnlyChanges((prev) => !prev)}
+        >
+          Only changes
+        </Button>
+      </div>
+      <TreeView
+        data={data}
+        title={title}
+        getIcon={getIcon}
+        iconMap={iconMap}
+        getItemDecoration={getItemDecoration}
+        onCheckChange={() => {}} // Nothing to check in a diff
+        expandedIds={expandedIds}
+        onToggleExpand={handleToggleExpand}
+        itemMap={itemMap}
+        getCheckedItems={noCheckedItems}
+        setExpandedIds={setExpandedIds}
+        virtualize={virtualize}
+        height={height}
+      />
+    </div>
+  );
+}
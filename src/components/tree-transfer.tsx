@@ -0,0 +1,268 @@
+import TreeView, {
+  type TreeViewCheckStrategy,
+  type TreeViewIconMap,
+  type TreeViewItem,
+  type TreeViewItemDecoration,
+  type TreeViewMenuItem,
+  type TreeViewProps,
+  getCheckState,
+} from "@/components/tree-view";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { TreeState } from "@/hooks/use-tree-state";
+import { buildItemMap, filterCheckedTree } from "@/lib/tree-utils";
+import { cn } from "@/lib/utils";
+import { ChevronLeft, ChevronRight, X } from "lucide-react";
+import type { JSX } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+interface TreeTransferProps<TMeta = unknown> {
+  state: TreeState<TMeta>; // The source tree, e.g. from useTreeState
+  checkStrategy?: TreeViewCheckStrategy; // Should match the one given to useTreeState
+  sourceTitle?: string;
+  targetTitle?: string;
+  getIcon?: (item: TreeViewItem, depth: number) => JSX.Element;
+  iconMap?: TreeViewIconMap;
+  sourceProps?: Partial<TreeViewProps<TMeta>>; // Passed on to the source tree over the state's props, e.g. menuItems or onSearch
+  targetProps?: Partial<TreeViewProps<TMeta>>;
+  className?: string;
+}
+
+const noCheckedItems = (): TreeViewItem[] => [];
+
+// Two panes over one tree: the source with checkboxes, and the target showing
+// what is checked along with the folders leading to it. Selected rows move
+// across with the buttons in between, removing from the target unchecks in
+// the source.
+export default function TreeTransfer<TMeta = unknown>({
+  state,
+  checkStrategy = "cascade",
+  sourceTitle = "Available",
+  targetTitle = "Selected",
+  getIcon,
+  iconMap,
+  sourceProps,
+  targetProps,
+  className,
+}: TreeTransferProps<TMeta>): JSX.Element {
+  const { data, itemMap, onCheckChanges, getCheckedItems } = state;
+  const [sourceSelectedIds, setSourceSelectedIds] = useState<Set<string>>(
+    new Set()
+  );
+  const [targetSelectedIds, setTargetSelectedIds] = useState<Set<string>>(
+    new Set()
+  );
+  const [targetExpandedIds, setTargetExpandedIds] = useState<Set<string>>(
+    new Set()
+  );
+  // Target folders shown so far, newly shown ones open up
+  const targetFolderIdsRef = useRef<Set<string>>(new Set());
+
+  const targetData = useMemo(
+    () =>
+      filterCheckedTree(
+        data,
+        (item) => getCheckState(item, itemMap, checkStrategy) === "checked"
+      ) as TreeViewItem<TMeta>[], // Copies of the source nodes, meta included
+    [data, itemMap, checkStrategy]
+  );
+  const targetItemMap = useMemo(() => buildItemMap(targetData), [targetData]);
+  const checkedCount = useMemo(
+    () => getCheckedItems(data).length,
+    [getCheckedItems, data]
+  );
+
+  useEffect(() => {
+    const folderIds = new Set<string>();
+    targetItemMap.forEach((item, id) => {
+      if (item.children) folderIds.add(id);
+    });
+    const newFolderIds = [...folderIds].filter(
+      (id) => !targetFolderIdsRef.current.has(id)
+    );
+    targetFolderIdsRef.current = folderIds;
+    if (newFolderIds.length > 0) {
+      setTargetExpandedIds((prev) => new Set([...prev, ...newFolderIds]));
+    }
+  }, [targetItemMap]);
+
+  const handleTargetToggleExpand = useCallback(
+    (id: string, isOpen: boolean) => {
+      setTargetExpandedIds((prev) => {
+        const newExpandedIds = new Set(prev);
+        if (isOpen) {
+          newExpandedIds.add(id);
+        } else {
+          newExpandedIds.delete(id);
+        }
+        return newExpandedIds;
+      });
+    },
+    []
+  );
+
+  // Check or uncheck the source nodes behind the given ids in one batch
+  const setChecked = useCallback(
+    (ids: Iterable<string>, checked: boolean) =>
+      onCheckChanges(
+        [...ids].flatMap((id) => {
+          const item = itemMap.get(id);
+          return item ? [{ item, checked }] : [];
+        })
+      ),
+    [itemMap, onCheckChanges]
+  );
+
+  const moveRight = () => {
+    setChecked(sourceSelectedIds, true);
+    setSourceSelectedIds(new Set());
+  };
+
+  const removeItems = useCallback(
+    (items: TreeViewItem[]) => {
+      setChecked(
+        items.map((item) => item.id),
+        false
+      );
+      setTargetSelectedIds(new Set());
+    },
+    [setChecked]
+  );
+
+  const targetMenuItems = useMemo(
+    (): TreeViewMenuItem[] => [
+      {
+        id: "remove",
+        label: "Remove",
+        icon: <X className="h-4 w-4" />,
+        disabled: (item) => !!item.locked,
+        action: (items) => removeItems(items),
+      },
+      ...(targetProps?.menuItems ?? []),
+    ],
+    [removeItems, targetProps?.menuItems]
+  );
+
+  // The target only holds checked nodes, so a partly checked folder would
+  // look fully checked there
+  const getSourceCheckState = useCallback(
+    (item: TreeViewItem) => getCheckState(item, itemMap, checkStrategy),
+    [itemMap, checkStrategy]
+  );
+
+  // Folders checked before their children loaded stand for all of them
+  const getTargetDecoration = useCallback(
+    (item: TreeViewItem): TreeViewItemDecoration | undefined => {
+      const sourceItem = itemMap.get(item.id);
+      if (!sourceItem?.checked || !sourceItem.pendingCheck) return undefined;
+      return {
+        label: (
+          <Badge
+            variant="secondary"
+            className="ml-2 align-middle"
+            title="Includes contents that haven't loaded yet"
+          >
+            all
+          </Badge>
+        ),
+      };
+    },
+    [itemMap]
+  );
+
+  return (
+    <div className={cn("flex gap-4 items-stretch", className)}>
+      <div className="flex flex-col gap-2 flex-1 min-w-0">
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="text-sm font-semibold">{sourceTitle}</h3>
+          <Badge variant="outline" className="tabular-nums">
+            {itemMap.size} {itemMap.size === 1 ? "item" : "items"}
+          </Badge>
+        </div>
+        <TreeView
+          data={data}
+          title={sourceTitle}
+          showCheckboxes
+          checkStrategy={checkStrategy}
+          getIcon={getIcon}
+          iconMap={iconMap}
+          setData={state.setData}
+          onCheckChange={state.onCheckChange}
+          onCheckChanges={onCheckChanges}
+          expandedIds={state.expandedIds}
+          onToggleExpand={state.onToggleExpand}
+          itemMap={itemMap}
+          getCheckedItems={getCheckedItems}
+          setExpandedIds={state.setExpandedIds}
+          initialScrollTop={state.initialScrollTop}
+          onScrollChange={state.onScrollChange}
+          onUndo={state.undo}
+          onRedo={state.redo}
+          selectedIds={sourceSelectedIds}
+          onSelectedIdsChange={setSourceSelectedIds}
+          {...sourceProps}
+        />
+      </div>
+      {/* Clicking these keeps the selections they act on */}
+      <div
+        className="flex flex-col justify-center gap-2"
+        data-keeps-tree-selection
+      >
+        <Button
+          variant="outline"
+          size="icon"
+          aria-label={`Add selected rows to ${targetTitle}`}
+          title="Add selected"
+          disabled={sourceSelectedIds.size === 0}
+          onClick={moveRight}
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          aria-label={`Remove selected rows from ${targetTitle}`}
+          title="Remove selected"
+          disabled={targetSelectedIds.size === 0}
+          onClick={() =>
+            removeItems(
+              [...targetSelectedIds].flatMap((id) => {
+                const item = targetItemMap.get(id);
+                return item ? [item] : [];
+              })
+            )
+          }
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="flex flex-col gap-2 flex-1 min-w-0">
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="text-sm font-semibold">{targetTitle}</h3>
+          <Badge variant="outline" className="tabular-nums">
+            {checkedCount} selected
+          </Badge>
+        </div>
+        <TreeView
+          data={targetData}
+          title={targetTitle}
+          showExpandAll={false}
+          getIcon={getIcon}
+          iconMap={iconMap}
+          getItemDecoration={getTargetDecoration}
+          onCheckChange={() => {}} // Checks are changed through the source
+          expandedIds={targetExpandedIds}
+          onToggleExpand={handleTargetToggleExpand}
+          itemMap={targetItemMap}
+          getCheckedItems={noCheckedItems}
+          setExpandedIds={setTargetExpandedIds}
+          selectedIds={targetSelectedIds}
+          onSelectedIdsChange={setTargetSelectedIds}
+          getExportCheckState={getSourceCheckState}
+          {...targetProps}
+          menuItems={targetMenuItems}
+        />
+      </div>
+    </div>
+  );
+}
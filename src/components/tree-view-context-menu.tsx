@@ -0,0 +1,158 @@
+import type { TreeViewItem, TreeViewMenuItem } from "@/components/tree-view";
+import {
+  ContextMenu,
+  ContextMenuCheckboxItem,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuLabel,
+  ContextMenuRadioGroup,
+  ContextMenuRadioItem,
+  ContextMenuSeparator,
+  ContextMenuShortcut,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import type { JSX } from "react";
+
+interface TreeViewContextMenuProps {
+  item: TreeViewItem; // The right-clicked node
+  menuItems: TreeViewMenuItem[];
+  getActionItems: () => TreeViewItem[];
+  onAction?: (action: string, items: TreeViewItem[]) => void;
+  children: JSX.Element; // The row, used as the trigger
+}
+
+const evaluate = (
+  condition: boolean | ((item: TreeViewItem) => boolean) | undefined,
+  item: TreeViewItem
+): boolean =>
+  typeof condition === "function" ? condition(item) : Boolean(condition);
+
+// Drop hidden entries, then separators that would end up leading, trailing
+// or next to each other
+const getVisibleEntries = (
+  entries: TreeViewMenuItem[],
+  item: TreeViewItem
+): TreeViewMenuItem[] => {
+  const result: TreeViewMenuItem[] = [];
+  entries.forEach((entry) => {
+    if (evaluate(entry.hidden, item)) return;
+    const previous = result[result.length - 1];
+    if (
+      entry.type === "separator" &&
+      (!previous || previous.type === "separator")
+    ) {
+      return;
+    }
+    result.push(entry);
+  });
+  if (result[result.length - 1]?.type === "separator") {
+    result.pop();
+  }
+  return result;
+};
+
+// Rendered only while the menu is open, so the action items (e.g. all
+// checked items) are resolved once per opening
+function TreeViewContextMenuEntries({
+  item,
+  menuItems,
+  getActionItems,
+  onAction,
+}: Omit<TreeViewContextMenuProps, "children">): JSX.Element {
+  const actionItems = getActionItems();
+
+  const renderEntries = (entries: TreeViewMenuItem[]): JSX.Element[] =>
+    getVisibleEntries(entries, item).map((entry) => {
+      const disabled = evaluate(entry.disabled, item);
+      switch (entry.type) {
+        case "separator":
+          return <ContextMenuSeparator key={entry.id} />;
+        case "submenu":
+          return (
+            <ContextMenuSub key={entry.id}>
+              <ContextMenuSubTrigger disabled={disabled} className="gap-2">
+                {entry.icon}
+                {entry.label}
+              </ContextMenuSubTrigger>
+              <ContextMenuSubContent className="w-48">
+                {renderEntries(entry.items)}
+              </ContextMenuSubContent>
+            </ContextMenuSub>
+          );
+        case "checkbox":
+          return (
+            <ContextMenuCheckboxItem
+              key={entry.id}
+              disabled={disabled}
+              checked={entry.checked(actionItems)}
+              onCheckedChange={(checked) =>
+                entry.onCheckedChange(checked, actionItems)
+              }
+            >
+              {entry.label}
+              {entry.shortcut && (
+                <ContextMenuShortcut>{entry.shortcut}</ContextMenuShortcut>
+              )}
+            </ContextMenuCheckboxItem>
+          );
+        case "radio":
+          return (
+            <ContextMenuRadioGroup
+              key={entry.id}
+              value={entry.value(actionItems)}
+              onValueChange={(value) => entry.onValueChange(value, actionItems)}
+            >
+              {entry.label && (
+                <ContextMenuLabel inset>{entry.label}</ContextMenuLabel>
+              )}
+              {entry.options.map((option) => (
+                <ContextMenuRadioItem
+                  key={option.value}
+                  value={option.value}
+                  disabled={disabled || option.disabled}
+                >
+                  {option.label}
+                </ContextMenuRadioItem>
+              ))}
+            </ContextMenuRadioGroup>
+          );
+        default:
+          return (
+            <ContextMenuItem
+              key={entry.id}
+              disabled={disabled}
+              variant={entry.variant}
+              onSelect={() => {
+                entry.action?.(actionItems, item);
+                onAction?.(entry.id, actionItems);
+              }}
+            >
+              {entry.icon}
+              {entry.label}
+              {entry.shortcut && (
+                <ContextMenuShortcut>{entry.shortcut}</ContextMenuShortcut>
+              )}
+            </ContextMenuItem>
+          );
+      }
+    });
+
+  return <>{renderEntries(menuItems)}</>;
+}
+
+export default function TreeViewContextMenu({
+  children,
+  ...props
+}: TreeViewContextMenuProps): JSX.Element {
+  return (
+    <ContextMenu>
+      <ContextMenuTrigger asChild>{children}</ContextMenuTrigger>
+      <ContextMenuContent className="w-64">
+        <TreeViewContextMenuEntries {...props} />
+      </ContextMenuContent>
+    </ContextMenu>
+  );
+}
@@ -14,66 +14,335 @@ import {
   HoverCardTrigger,
 } from "@/components/ui/hover-card";
 import { Input } from "@/components/ui/input";
+import {
+  ContextMenu,
+  ContextMenuCheckboxItem,
+  ContextMenuContent,
+  ContextMenuLabel,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import { Skeleton } from "@/components/ui/skeleton";
+import TreeViewContextMenu from "@/components/tree-view-context-menu";
 import { cn } from "@/lib/utils";
 import { AnimatePresence, motion } from "framer-motion";
 import {
+  AlertCircle,
+  ArrowDown,
+  ArrowUp,
   Box,
   ChevronDown,
   ChevronRight,
+  ClipboardCopy,
+  Download,
+  FilePlus,
   Folder,
+  FolderPlus,
+  FolderSearch,
   Info,
+  ListChecks,
+  ListFilter,
   Loader2,
+  Lock,
+  Pencil,
+  RotateCw,
   Search,
+  Trash2,
+  X,
 } from "lucide-react"; // Import Loader2
 import type { JSX } from "react";
-import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  Fragment,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import {
+  type TreeDropTarget,
+  useTreeDragDrop,
+} from "@/hooks/use-tree-drag-drop";
+import {
+  type TreeEditingState,
+  useTreeEditing,
+} from "@/hooks/use-tree-editing";
+import {
+  type TreeItemDetailsState,
+  useTreeDetails,
+} from "@/hooks/use-tree-details";
+import {
+  type TreeColumnSort,
+  isColumnSortable,
+  useTreeColumns,
+} from "@/hooks/use-tree-columns";
+import { useTreeSelection } from "@/hooks/use-tree-selection";
+import { useVirtualRows } from "@/hooks/use-virtual-rows";
+import {
+  findQueryMatches,
+  parseTreeQuery,
+  quoteQueryValue,
+} from "@/lib/tree-query";
+import {
+  type TreeExportFormat,
+  downloadText,
+  exportTree,
+  treeExportFormats,
+} from "@/lib/tree-export";
+import { getCheckIndex, getIndexedCheckState } from "@/lib/tree-check-index";
+import { searchMatchers, searchTree } from "@/lib/tree-search";
+import { getItemNamePath } from "@/lib/tree-selection";
+import {
+  createSiblingComparator,
+  getTypeGroupStarts,
+  groupTreeSiblingsByType,
+  sortTreeSiblings,
+} from "@/lib/tree-sort";
+import {
+  canToggleCheck,
+  describeItems,
+  filterCheckedTree,
+  flattenVisibleTree,
+  getAncestorIds,
+  mergeItemPaths,
+} from "@/lib/tree-utils";
 
 // Moved interfaces to be accessible by both components
-export interface TreeViewItem {
+// `TMeta` types the app's own data in `meta`
+export interface TreeViewItem<TMeta = unknown> {
   id: string;
   name: string;
   type: string;
-  children?: TreeViewItem[];
+  children?: TreeViewItem<TMeta>[];
   checked?: boolean; // Added checked property
   loaded?: boolean; // Indicates if children have been loaded
   loading?: boolean; // Indicates if children are currently loading
+  error?: string; // Set when loading children failed, cleared on retry
+  partial?: boolean; // Only some children are known (e.g. merged search results), the rest load on expand
+  disabled?: boolean; // Can be browsed but not checked, selected, moved or edited
+  checkable?: boolean; // false hides the checkbox
+  locked?: boolean; // Always checked, can't be unchecked
+  pendingCheck?: boolean; // Check state for the children that haven't loaded yet, applied as they arrive
+  meta?: TMeta; // Shown in the info card, field by field unless renderDetails is given
+}
+
+export interface TreeViewDetailsContext<TDetails = unknown> {
+  depth: number;
+  location: string; // Names from the root down, e.g. "Database A → Schema Public"
+  details?: TDetails; // What loadDetails resolved to
+  error?: string; // Set when loadDetails failed, it is retried on the next open
+  defaultDetails: JSX.Element; // The built-in Type, ID, Location and Items rows, to extend rather than replace
+}
+
+// Contents of the info card below the node's name
+export type TreeViewDetailsRenderer<TMeta = unknown, TDetails = unknown> = (
+  item: TreeViewItem<TMeta>,
+  context: TreeViewDetailsContext<TDetails>
+) => React.ReactNode;
+
+// Extra styling for a row's name, e.g. the change markers of TreeDiffView
+export interface TreeViewItemDecoration {
+  className?: string; // Added to the name
+  label?: JSX.Element; // Shown after the name
+}
+
+// What a treegrid cell shows and its column sorts by
+export type TreeViewCellValue =
+  string | number | boolean | Date | null | undefined;
+
+// A treegrid column next to the name column, which always comes first
+export interface TreeViewColumn<TMeta = unknown> {
+  id: string;
+  header: string;
+  accessor?: (item: TreeViewItem<TMeta>) => TreeViewCellValue;
+  render?: (
+    item: TreeViewItem<TMeta>,
+    value: TreeViewCellValue
+  ) => React.ReactNode; // Custom cell content, else the formatted value
+  width?: number; // In px, the header's edge can be dragged to change it
+  minWidth?: number;
+  sortable?: boolean; // Defaults to having an accessor
+  hidden?: boolean; // Start hidden, the header's context menu shows and hides columns
+  align?: "left" | "right";
 }
 
 export interface TreeViewIconMap {
   [key: string]: JSX.Element | undefined;
 }
 
-export interface TreeViewMenuItem {
+// Predicates receive the right-clicked node, e.g. `(item) => item.type !== "table"`
+type TreeViewMenuItemCondition = boolean | ((item: TreeViewItem) => boolean);
+
+interface TreeViewMenuItemBase {
   id: string;
+  hidden?: TreeViewMenuItemCondition;
+  disabled?: TreeViewMenuItemCondition;
+}
+
+export interface TreeViewMenuActionItem extends TreeViewMenuItemBase {
+  type?: "item";
   label: string;
   icon?: JSX.Element;
-  action: (items: TreeViewItem[]) => void;
+  shortcut?: string; // Hint shown on the right, e.g. "⌘C"
+  variant?: "default" | "destructive";
+  action?: (items: TreeViewItem[], item: TreeViewItem) => void; // `item` is the right-clicked node, onAction is called with the id as well
+}
+
+export interface TreeViewMenuSeparator extends TreeViewMenuItemBase {
+  type: "separator";
+}
+
+export interface TreeViewMenuSubmenu extends TreeViewMenuItemBase {
+  type: "submenu";
+  label: string;
+  icon?: JSX.Element;
+  items: TreeViewMenuItem[];
+}
+
+export interface TreeViewMenuCheckboxItem extends TreeViewMenuItemBase {
+  type: "checkbox";
+  label: string;
+  shortcut?: string;
+  checked: (items: TreeViewItem[]) => boolean;
+  onCheckedChange: (checked: boolean, items: TreeViewItem[]) => void;
 }
 
-export interface TreeViewProps {
+export interface TreeViewMenuRadioGroup extends TreeViewMenuItemBase {
+  type: "radio";
+  label?: string;
+  options: { value: string; label: string; disabled?: boolean }[];
+  value: (items: TreeViewItem[]) => string;
+  onValueChange: (value: string, items: TreeViewItem[]) => void;
+}
+
+export type TreeViewMenuItem =
+  | TreeViewMenuActionItem
+  | TreeViewMenuSeparator
+  | TreeViewMenuSubmenu
+  | TreeViewMenuCheckboxItem
+  | TreeViewMenuRadioGroup;
+
+// How siblings are ordered: folders before leaves, names in natural order
+// ("table2" before "table10"), by type name, or a custom comparator
+export type TreeViewSortOrder =
+  | "folders-first"
+  | "natural"
+  | "type"
+  | ((a: TreeViewItem, b: TreeViewItem) => number);
+
+// How checks propagate and what getCheckedItems reports:
+// - "cascade": checking a folder checks everything below it, a folder is
+//   checked once all its children are; reports every checked node
+// - "independent": every node is checked on its own; reports every checked node
+// - "leaf-only": like cascade, but only reports checked leaves
+// - "parent-wins": like cascade, but a fully checked folder is reported
+//   instead of anything below it
+export type TreeViewCheckStrategy =
+  "cascade" | "independent" | "leaf-only" | "parent-wins";
+
+export interface TreeViewSearchMatch {
+  ranges: [number, number][]; // Matched [start, end) ranges of the name, in order
+  score: number; // Higher ranks first
+}
+
+// Compiles the query once per search and returns a function matching names.
+// Throwing rejects the query, the message is shown instead of results.
+export type TreeViewMatcher = (
+  query: string
+) => (name: string) => TreeViewSearchMatch | null;
+
+// Where a dragged node lands relative to the row it is dropped on
+export type TreeViewDropPosition = "before" | "after" | "inside";
+
+export interface TreeViewMoveEvent {
+  items: TreeViewItem[]; // Moved nodes, in tree order
+  target: TreeViewItem; // Row the nodes were dropped or pasted on
+  position: TreeViewDropPosition;
+  parentId: string | null; // New parent, null for the root level
+  index: number; // Index among the new siblings, once the moved nodes are taken out
+}
+
+export interface TreeViewCheckChange {
+  item: TreeViewItem;
+  checked: boolean;
+}
+
+export interface TreeViewProps<TMeta = unknown, TDetails = unknown> {
   className?: string;
-  data: TreeViewItem[]; // Now passed as prop
+  data: TreeViewItem<TMeta>[]; // Now passed as prop
   title?: string;
   showExpandAll?: boolean;
   showCheckboxes?: boolean;
+  checkStrategy?: TreeViewCheckStrategy; // Should match the one given to useTreeState
   checkboxPosition?: "left" | "right";
   searchPlaceholder?: string;
+  searchMatcher?: "substring" | "fuzzy" | "regex" | "word" | TreeViewMatcher;
+  rankSearchResults?: boolean; // Order siblings by how well they match
+  noResultsText?: string;
+  onSearch?: (
+    query: string,
+    options: { signal: AbortSignal }
+  ) => Promise<TreeViewItem[][]>; // Server-side search, resolves to the ancestor chains (root first) of the matches
+  setData?: React.Dispatch<React.SetStateAction<TreeViewItem[]>>; // Needed to merge onSearch results into the data
   selectionText?: string;
+  checkboxLabels?: {
+    check: string;
+    uncheck: string;
+  };
   getIcon?: (item: TreeViewItem, depth: number) => JSX.Element;
-  onSelectionChange?: (selectedItems: TreeViewItem[]) => void; // Now for checked items
+  getItemDecoration?: (
+    item: TreeViewItem
+  ) => TreeViewItemDecoration | undefined;
+  sort?: TreeViewSortOrder | TreeViewSortOrder[]; // Later orders break the ties of earlier ones, keep the array stable, e.g. at module level
+  groupByType?: boolean; // A header with type and count above each run of same-type siblings
+  groupLabels?: Record<string, string>; // Group headers by type, e.g. { table: "Tables" }, else the capitalized type plus "s"
+  columns?: TreeViewColumn<TMeta>[]; // Turns the tree into a treegrid with these columns after the name
+  nameColumnHeader?: string;
+  onSelectionChange?: (selectedItems: TreeViewItem[]) => void; // Effective selected rows, see getEffectiveSelectedItems
+  selectedIds?: Set<string>; // Makes row selection controlled
+  onSelectedIdsChange?: (selectedIds: Set<string>) => void;
   onAction?: (action: string, items: TreeViewItem[]) => void;
   onCheckChange: (item: TreeViewItem, checked: boolean) => void; // Now required prop
+  onCheckChanges?: (changes: TreeViewCheckChange[]) => void; // Batched checks from the query and selection bars, else onCheckChange is called per item
+  showQueryBar?: boolean; // Query bar to check, uncheck, invert or select matching nodes, defaults to showCheckboxes
+  showExport?: boolean; // Export button in the header to copy or download the tree as JSON, CSV, Markdown or Mermaid
+  exportFileName?: string; // Without the extension, defaults to the title
+  getExportCheckState?: (
+    item: TreeViewItem
+  ) => "checked" | "unchecked" | "indeterminate"; // What the export reports for a node, e.g. its state in another tree this one is filtered from
   iconMap?: TreeViewIconMap;
   menuItems?: TreeViewMenuItem[];
   expandedIds: Set<string>; // Now required prop
   onToggleExpand: (id: string, isOpen: boolean, item: TreeViewItem) => void; // Now required prop, pass item
   itemMap: Map<string, TreeViewItem>; // Now required prop
   getCheckedItems: (dataToProcess?: TreeViewItem[]) => TreeViewItem[]; // Now required prop
-  setExpandedIds: (expandedIds: Set<string>) => void; // Added setExpandedIds prop
+  setExpandedIds: React.Dispatch<React.SetStateAction<Set<string>>>; // Added setExpandedIds prop
+  virtualize?: boolean; // Only mount the rows inside the viewport
+  height?: number; // Viewport height in px, used when virtualize is on
+  estimatedRowHeight?: number; // Initial guess before a row is measured
+  initialScrollTop?: number; // Applied once the rows are tall enough, e.g. from useTreeState's persistKey
+  onScrollChange?: (scrollTop: number) => void; // The viewport with virtualize, else the page
+  onActivate?: (item: TreeViewItem) => void; // Enter on the focused row
+  onMove?: (move: TreeViewMoveEvent) => void; // Enables drag-and-drop and keyboard moves
+  canDrop?: (
+    dragged: TreeViewItem,
+    target: TreeViewItem,
+    position: TreeViewDropPosition
+  ) => boolean; // Called for each moved node, e.g. to only allow tables in schemas
+  onRename?: (item: TreeViewItem, name: string) => Promise<void> | void; // Enables F2/double-click rename, reject to show an error
+  onCreate?: (parent: TreeViewItem, item: TreeViewItem) => Promise<void> | void; // Enables "New folder"/"New item" on folders
+  onDelete?: (items: TreeViewItem[]) => Promise<void> | void; // Enables Delete, asks for confirmation first
+  renderDetails?: TreeViewDetailsRenderer<TMeta, TDetails>;
+  loadDetails?: (
+    item: TreeViewItem<TMeta>,
+    options: { signal: AbortSignal }
+  ) => Promise<TDetails>; // Fetched when the info card first opens, a skeleton shows meanwhile
+  onUndo?: () => void; // Ctrl/Cmd+Z, e.g. useTreeState's undo
+  onRedo?: () => void; // Shift+Ctrl/Cmd+Z
 }
 
-interface TreeItemProps {
-  item: TreeViewItem;
+interface TreeItemProps<TMeta = unknown, TDetails = unknown> {
+  item: TreeViewItem<TMeta>;
   depth?: number;
   expandedIds: Set<string>;
   onToggleExpand: (id: string, isOpen: boolean, item: TreeViewItem) => void; // Pass item
@@ -85,54 +354,270 @@ interface TreeItemProps {
   itemMap: Map<string, TreeViewItem>;
   iconMap?: TreeViewIconMap;
   getCheckedItems: (dataToProcess?: TreeViewItem[]) => TreeViewItem[];
+  checkStrategy?: TreeViewCheckStrategy;
+  menuItems?: TreeViewMenuItem[];
+  selectionClasses?: Map<string, string>; // Selected row ids to their styling
+  onSelect?: (item: TreeViewItem, e: React.MouseEvent) => void;
+  getSelectedItems?: () => TreeViewItem[];
+  dropTarget?: TreeDropTarget | null; // Row and position the dragged nodes would land on
+  cutIds?: Set<string>; // Rows waiting to be pasted elsewhere
+  getDragProps?: (item: TreeViewItem) => React.HTMLAttributes<HTMLDivElement>;
+  editing?: TreeEditingState | null; // Row or folder with an open name input
+  onRenameStart?: (item: TreeViewItem) => void;
+  onEditSubmit?: (name: string) => void;
+  onEditCancel?: () => void;
+  searchMatches?: Map<string, TreeViewSearchMatch>;
+  activeMatchId?: string | null; // Match the search is currently on
+  getItemDecoration?: (
+    item: TreeViewItem
+  ) => TreeViewItemDecoration | undefined;
+  renderDetails?: TreeViewDetailsRenderer<TMeta, TDetails>;
+  getDetailsState?: (
+    item: TreeViewItem<TMeta>
+  ) => TreeItemDetailsState<TDetails> | undefined;
+  onDetailsOpen?: (item: TreeViewItem<TMeta>) => void;
+  groupByType?: boolean;
+  groupLabels?: Record<string, string>;
+  columns?: TreeViewColumn<TMeta>[]; // Visible treegrid columns, rows become treegrid rows
+  getColumnWidth?: (column: TreeViewColumn<TMeta>) => number;
+  focusedId?: string | null; // The single row that is in the tab order
+  posInSet?: number;
+  setSize?: number;
 }
 
+const ariaCheckedMap = {
+  checked: "true",
+  unchecked: "false",
+  indeterminate: "mixed",
+} as const;
+
+// How long typed characters keep accumulating into one type-ahead query
+const TYPEAHEAD_TIMEOUT = 500;
+// Pause in typing before onSearch is called
+const SEARCH_DEBOUNCE = 300;
+// Height of the treegrid's sticky header row (h-8)
+const GRID_HEADER_HEIGHT = 32;
+
 // Add this default icon map
 const defaultIconMap: TreeViewIconMap = {
   file: <Box className="h-4 w-4 text-red-600" />,
   folder: <Folder className="h-4 w-4 text-primary/80" />,
 };
 
-// Update the getCheckState function to work bottom-up
-// This function is now a helper, not directly part of TreeView component
+// The check state of a node, looked up in the index of `itemMap` (built on
+// first use). Folders derive theirs from the checkable leaves below them.
 export const getCheckState = (
   item: TreeViewItem,
-  itemMap: Map<string, TreeViewItem>
-): "checked" | "unchecked" | "indeterminate" => {
-  // Get the original item from the map
-  const originalItem = itemMap.get(item.id);
-  if (!originalItem) return "unchecked";
-
-  // If it's a leaf node (no children), return its check state
-  if (!originalItem.children || originalItem.children.length === 0) {
-    return originalItem.checked ? "checked" : "unchecked";
-  }
+  itemMap: Map<string, TreeViewItem>,
+  strategy: TreeViewCheckStrategy = "cascade"
+): "checked" | "unchecked" | "indeterminate" =>
+  getIndexedCheckState(getCheckIndex(itemMap, strategy), itemMap.get(item.id));
 
-  // Count the check states of immediate children
-  let checkedCount = 0;
-  let indeterminateCount = 0;
-  originalItem.children.forEach((child) => {
-    const childState = getCheckState(child, itemMap); // Recursive call
-    if (childState === "checked") checkedCount++;
-    if (childState === "indeterminate") indeterminateCount++;
-  });
+const formatGroupLabel = (type: string) =>
+  `${type.charAt(0).toUpperCase()}${type.slice(1)}s`;
 
-  // Calculate parent state based on children states
-  const totalChildren = originalItem.children.length;
+const formatCellValue = (value: TreeViewCellValue): string => {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toLocaleDateString();
+  if (typeof value === "number") return value.toLocaleString();
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return value;
+};
 
-  // If all children are checked
-  if (checkedCount === totalChildren) {
-    return "checked";
-  }
-  // If any child is checked or indeterminate
-  if (checkedCount > 0 || indeterminateCount > 0) {
-    return "indeterminate";
-  }
-  // If no children are checked or indeterminate
-  return "unchecked";
+// Walks the full data to build a breadcrumb for the info card
+const getItemPath = (item: TreeViewItem, items: TreeViewItem[]): string => {
+  const path: string[] = [item.name];
+  const findParent = (currentItem: TreeViewItem, allItems: TreeViewItem[]) => {
+    for (const potentialParent of allItems) {
+      if (
+        potentialParent.children?.some((child) => child.id === currentItem.id)
+      ) {
+        path.unshift(potentialParent.name);
+        findParent(potentialParent, allItems);
+        break;
+      }
+      if (potentialParent.children) {
+        findParent(currentItem, potentialParent.children);
+      }
+    }
+  };
+  findParent(item, items);
+  return path.join(" → ");
+};
+
+// "row_count" or "rowCount" as "Row count"
+const formatDetailLabel = (key: string) => {
+  const words = key
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/_/g, " ")
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
 };
 
-function TreeItem({
+const formatDetailValue = (value: unknown): string => {
+  if (Array.isArray(value)) return value.map(formatDetailValue).join(", ");
+  if (value !== null && typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+// One row per field of a plain object, e.g. an item's meta or loaded details
+function TreeItemDetailRows({
+  values,
+}: {
+  values: unknown;
+}): JSX.Element | null {
+  if (values === null || typeof values !== "object" || Array.isArray(values)) {
+    return null;
+  }
+  return (
+    <>
+      {Object.entries(values).map(([key, value]) =>
+        value === undefined ? null : (
+          <div key={key}>
+            <span className="font-medium">{formatDetailLabel(key)}:</span>{" "}
+            {formatDetailValue(value)}
+          </div>
+        )
+      )}
+    </>
+  );
+}
+
+interface TreeItemInfoCardProps<TMeta = unknown, TDetails = unknown> {
+  item: TreeViewItem<TMeta>;
+  depth: number;
+  allItems: TreeViewItem[];
+  renderDetails?: TreeViewDetailsRenderer<TMeta, TDetails>;
+  detailsState?: TreeItemDetailsState<TDetails>;
+  onOpen?: (item: TreeViewItem<TMeta>) => void;
+}
+
+// Card contents, only mounted while the HoverCard is open so the path is
+// only computed then
+function TreeItemDetails<TMeta, TDetails>({
+  item,
+  depth,
+  allItems,
+  renderDetails,
+  detailsState,
+}: Omit<TreeItemInfoCardProps<TMeta, TDetails>, "onOpen">): JSX.Element {
+  const location = getItemPath(item, allItems);
+  const defaultDetails = (
+    <div className="text-sm text-muted-foreground space-y-1">
+      <div>
+        <span className="font-medium">Type:</span>{" "}
+        {item.type.charAt(0).toUpperCase() +
+          item.type.slice(1).replace("_", " ")}
+      </div>
+      <div>
+        <span className="font-medium">ID:</span> {item.id}
+      </div>
+      <div>
+        <span className="font-medium">Location:</span> {location}
+      </div>
+      {item.children && (
+        <div>
+          <span className="font-medium">Items:</span> {item.children.length}{" "}
+          direct items
+        </div>
+      )}
+      <TreeItemDetailRows values={item.meta} />
+      {!renderDetails && <TreeItemDetailRows values={detailsState?.details} />}
+    </div>
+  );
+
+  return (
+    <div className="space-y-2" aria-busy={detailsState?.loading || undefined}>
+      <h4 className="text-sm font-semibold">{item.name}</h4>
+      {detailsState?.loading ? (
+        <>
+          {!renderDetails && defaultDetails}
+          <div className="space-y-2 pt-1">
+            <Skeleton className="h-4 w-3/4" />
+            <Skeleton className="h-4 w-1/2" />
+            <Skeleton className="h-4 w-2/3" />
+          </div>
+        </>
+      ) : renderDetails ? (
+        renderDetails(item, {
+          depth,
+          location,
+          details: detailsState?.details,
+          error: detailsState?.error,
+          defaultDetails,
+        })
+      ) : (
+        defaultDetails
+      )}
+      {!renderDetails && detailsState?.error && (
+        <p className="text-xs text-red-500" role="alert">
+          Failed to load details: {detailsState.error}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// The info button at the end of a row and the card it opens on hover
+function TreeItemInfoCard<TMeta, TDetails>({
+  onOpen,
+  ...props
+}: TreeItemInfoCardProps<TMeta, TDetails>): JSX.Element {
+  return (
+    <HoverCard onOpenChange={(open) => open && onOpen?.(props.item)}>
+      <HoverCardTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 w-6 p-0 group-hover:opacity-100 opacity-0 items-center justify-center"
+          tabIndex={-1}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <Info className="h-4 w-4 text-muted-foreground" />
+        </Button>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-80">
+        <TreeItemDetails {...props} />
+      </HoverCardContent>
+    </HoverCard>
+  );
+}
+
+// Wraps the matched ranges of a label in <mark>, the current match stands out
+function HighlightedText({
+  text,
+  ranges,
+  active,
+}: {
+  text: string;
+  ranges?: [number, number][];
+  active?: boolean;
+}): JSX.Element {
+  if (!ranges?.length) return <>{text}</>;
+  const parts: (string | JSX.Element)[] = [];
+  let last = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > last) parts.push(text.slice(last, start));
+    parts.push(
+      <mark
+        key={start}
+        className={cn(
+          "rounded-sm text-foreground",
+          active ? "bg-yellow-400" : "bg-yellow-200"
+        )}
+      >
+        {text.slice(start, end)}
+      </mark>
+    );
+    last = end;
+  });
+  parts.push(text.slice(last));
+  return <>{parts}</>;
+}
+
+// Renders a single row (label, checkbox, info card) without its
+// children, so it can be used by both the recursive and the windowed renderer
+function TreeItemRow<TMeta, TDetails>({
   item,
   depth = 0,
   expandedIds,
@@ -145,55 +630,71 @@ function TreeItem({
   itemMap,
   iconMap = defaultIconMap,
   getCheckedItems,
-}: TreeItemProps): JSX.Element {
+  checkStrategy,
+  menuItems,
+  selectionClasses,
+  onSelect,
+  getSelectedItems,
+  dropTarget,
+  cutIds,
+  getDragProps,
+  editing,
+  onRenameStart,
+  onEditSubmit,
+  onEditCancel,
+  searchMatches,
+  activeMatchId,
+  getItemDecoration,
+  renderDetails,
+  getDetailsState,
+  onDetailsOpen,
+  columns,
+  getColumnWidth,
+  focusedId,
+  posInSet,
+  setSize,
+}: TreeItemProps<TMeta, TDetails>): JSX.Element {
   const isOpen = expandedIds.has(item.id);
-  const [regexInput, setRegexInput] = useState("");
-  const [regexError, setRegexError] = useState<string | null>(null);
+  const selectionClassName = selectionClasses?.get(item.id);
+  const isSelected = selectionClassName !== undefined;
+  const dropPosition =
+    dropTarget?.id === item.id ? dropTarget.position : undefined;
+  const renaming =
+    editing?.mode === "rename" && editing.id === item.id ? editing : null;
+  const decoration = getItemDecoration?.(item);
 
   const handleClick = (e: React.MouseEvent) => {
     e.stopPropagation();
-    // Only toggle folder expansion on click
-    if (item.children) {
+    if (!item.disabled) onSelect?.(item, e);
+    // Only toggle folder expansion on a plain click, modifiers extend the selection
+    if (item.children && !e.shiftKey && !e.ctrlKey && !e.metaKey) {
       onToggleExpand(item.id, !isOpen, item); // Pass item here
     }
   };
 
-  const handleAction = (action: string) => {
-    if (onAction) {
-      // Get all checked items, or just this item if none checked
-      const checkedItems =
-        getCheckedItems().length > 0 ? getCheckedItems() : [item];
-      onAction(action, checkedItems);
+  // Menu actions apply to the selection when the row is part of it, to all
+  // checked items when the row is checked, else just to this item
+  const getActionItems = () => {
+    if (isSelected && getSelectedItems) {
+      return getSelectedItems();
     }
+    if (getCheckState(item, itemMap, checkStrategy) === "checked") {
+      const checkedItems = getCheckedItems();
+      if (checkedItems.length > 0) return checkedItems;
+    }
+    return [item];
   };
 
   const handleCheckboxClick = (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (onCheckChange) {
-      const currentState = getCheckState(item, itemMap);
+    if (onCheckChange && canToggleCheck(item)) {
+      const currentState = getCheckState(item, itemMap, checkStrategy);
       // Toggle between checked and unchecked, treating indeterminate as unchecked
       const newChecked = currentState === "checked" ? false : true;
       onCheckChange(item, newChecked);
     }
   };
 
-  const handleApplyRegex = (e: React.MouseEvent) => {
-    e.stopPropagation(); // Prevent closing popover or triggering item click
-    if (!item.children || !onCheckChange) return;
-
-    try {
-      const regex = new RegExp(regexInput);
-      setRegexError(null);
-      item.children.forEach((child) => {
-        const shouldBeChecked = regex.test(child.name);
-        onCheckChange(child, shouldBeChecked);
-      });
-      setRegexInput(""); // Clear input after successful application
-    } catch (error: any) {
-      setRegexError(error.message);
-    }
-  };
-
   const renderIcon = () => {
     if (getIcon) {
       return getIcon(item, depth);
@@ -202,237 +703,496 @@ function TreeItem({
     return iconMap[item.type] || iconMap.folder || defaultIconMap.folder;
   };
 
-  const getItemPath = (item: TreeViewItem, items: TreeViewItem[]): string => {
-    const path: string[] = [item.name];
-    const findParent = (
-      currentItem: TreeViewItem,
-      allItems: TreeViewItem[]
-    ) => {
-      for (const potentialParent of allItems) {
-        if (
-          potentialParent.children?.some((child) => child.id === currentItem.id)
-        ) {
-          path.unshift(potentialParent.name);
-          findParent(potentialParent, allItems);
-          break;
-        }
-        if (potentialParent.children) {
-          findParent(currentItem, potentialParent.children);
+  const renderName = () =>
+    renaming ? (
+      <TreeItemNameInput
+        defaultValue={item.name}
+        editing={renaming}
+        onSubmit={onEditSubmit}
+        onCancel={onEditCancel}
+      />
+    ) : (
+      <span
+        className={cn("flex-1", decoration?.className)}
+        onDoubleClick={
+          onRenameStart && !item.disabled
+            ? (e) => {
+                e.stopPropagation();
+                onRenameStart(item);
+              }
+            : undefined
         }
+      >
+        <HighlightedText
+          text={item.name}
+          ranges={searchMatches?.get(item.id)?.ranges}
+          active={activeMatchId === item.id}
+        />
+        {decoration?.label}
+      </span>
+    );
+
+  const currentCheckState = getCheckState(item, itemMap, checkStrategy);
+
+  // Chevron, checkbox, icon and name, the first cell in a treegrid
+  const label = (
+    <div className="flex items-center h-8">
+      {" "}
+      {item.children ? (
+        <div className="flex items-center gap-2 flex-1">
+          <Collapsible
+            open={isOpen}
+            onOpenChange={(open) => onToggleExpand(item.id, open, item)}
+          >
+            <CollapsibleTrigger asChild onClick={(e) => e.stopPropagation()}>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                tabIndex={-1}
+                aria-hidden
+              >
+                {item.loading ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <motion.div
+                    initial={false}
+                    animate={{ rotate: isOpen ? 90 : 0 }}
+                    transition={{ duration: 0.1 }}
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </motion.div>
+                )}
+              </Button>
+            </CollapsibleTrigger>
+          </Collapsible>
+          {showCheckboxes && (
+            <TreeItemCheckbox
+              item={item}
+              state={currentCheckState}
+              announce={!!columns}
+              onClick={handleCheckboxClick}
+            />
+          )}
+          {renderIcon()}
+          {renderName()}
+          <TreeItemInfoCard
+            item={item}
+            depth={depth}
+            allItems={allItems}
+            renderDetails={renderDetails}
+            detailsState={getDetailsState?.(item)}
+            onOpen={onDetailsOpen}
+          />
+        </div>
+      ) : (
+        <div className="flex items-center gap-2 flex-1 pl-8 group">
+          {showCheckboxes && (
+            <TreeItemCheckbox
+              item={item}
+              state={currentCheckState}
+              announce={!!columns}
+              onClick={handleCheckboxClick}
+            />
+          )}
+          {renderIcon()}
+          {renderName()}
+          <TreeItemInfoCard
+            item={item}
+            depth={depth}
+            allItems={allItems}
+            renderDetails={renderDetails}
+            detailsState={getDetailsState?.(item)}
+            onOpen={onDetailsOpen}
+          />
+        </div>
+      )}
+    </div>
+  );
+
+  const row = (
+    <div
+      data-tree-item
+      data-id={item.id}
+      data-depth={depth}
+      data-folder-closed={item.children && !isOpen}
+      role={columns ? "row" : "treeitem"}
+      aria-level={depth + 1}
+      aria-posinset={posInSet}
+      aria-setsize={setSize}
+      aria-expanded={item.children ? isOpen : undefined}
+      aria-busy={item.loading || undefined}
+      aria-checked={
+        showCheckboxes && item.checkable !== false && !columns
+          ? ariaCheckedMap[currentCheckState]
+          : undefined
       }
-    };
-    findParent(item, items);
-    return path.join(" → ");
-  };
+      aria-disabled={item.disabled || undefined}
+      aria-selected={onSelect ? isSelected : undefined}
+      tabIndex={focusedId === item.id ? 0 : -1}
+      className={cn(
+        "relative select-none cursor-pointer text-foreground px-1 group rounded-md outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50",
+        selectionClassName,
+        item.disabled && "text-muted-foreground",
+        cutIds?.has(item.id) && "opacity-50",
+        dropPosition === "inside" && "bg-primary/10 ring-1 ring-primary/50"
+      )}
+      style={columns ? undefined : { paddingLeft: `${depth * 20}px` }}
+      onClick={handleClick}
+      {...(renaming ? undefined : getDragProps?.(item))}
+    >
+      {(dropPosition === "before" || dropPosition === "after") && (
+        <div
+          className={cn(
+            "absolute right-0 h-0.5 rounded-full bg-primary pointer-events-none",
+            dropPosition === "before" ? "top-0" : "bottom-0"
+          )}
+          style={{ left: `${depth * 20 + 8}px` }}
+        />
+      )}
+      {columns ? (
+        <div className="flex items-center">
+          <div
+            role="gridcell"
+            className="flex-1 min-w-0"
+            style={{ paddingLeft: `${depth * 20}px` }}
+          >
+            {label}
+          </div>
+          {columns.map((column) => {
+            const value = column.accessor?.(item);
+            return (
+              <div
+                key={column.id}
+                role="gridcell"
+                className={cn(
+                  "shrink-0 truncate px-2 text-sm text-muted-foreground",
+                  column.align === "right" && "text-right tabular-nums"
+                )}
+                style={{ width: getColumnWidth?.(column) }}
+              >
+                {column.render
+                  ? column.render(item, value)
+                  : formatCellValue(value)}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        label
+      )}
+      {renaming?.error && (
+        <p
+          className="text-red-500 text-xs mt-1 ml-10"
+          style={{ paddingLeft: `${depth * 20}px` }}
+          role="alert"
+        >
+          {renaming.error}
+        </p>
+      )}
+    </div>
+  );
 
-  const currentCheckState = getCheckState(item, itemMap);
+  if (!menuItems?.length) return row;
+  return (
+    <TreeViewContextMenu
+      item={item}
+      menuItems={menuItems}
+      getActionItems={getActionItems}
+      onAction={onAction}
+    >
+      {row}
+    </TreeViewContextMenu>
+  );
+}
 
+// Checkbox of a row. Locked nodes show a lock on the checked box and
+// disabled ones are dimmed, clicking either does nothing. Non-checkable nodes
+// get an empty slot so the labels stay aligned.
+function TreeItemCheckbox({
+  item,
+  state,
+  announce,
+  onClick,
+}: {
+  item: TreeViewItem;
+  state: "checked" | "unchecked" | "indeterminate";
+  announce?: boolean; // Treegrid rows can't carry aria-checked, the box does instead
+  onClick: (e: React.MouseEvent) => void;
+}): JSX.Element {
+  if (item.checkable === false) return <div className="w-4 h-4" />;
+  const toggleable = canToggleCheck(item);
   return (
-    <div>
-      <div
-        data-tree-item
-        data-id={item.id}
-        data-depth={depth}
-        data-folder-closed={item.children && !isOpen}
-        className={`select-none cursor-pointer text-foreground px-1 group`}
-        style={{ paddingLeft: `${depth * 20}px` }}
-        onClick={handleClick}
-      >
-        <div className="flex items-center h-8">
-          {item.children ? (
-            <div className="flex items-center gap-2 flex-1">
-              <Collapsible
-                open={isOpen}
-                onOpenChange={(open) => onToggleExpand(item.id, open, item)}
+    <div
+      role={announce ? "checkbox" : undefined}
+      aria-checked={announce ? ariaCheckedMap[state] : undefined}
+      aria-disabled={announce && !toggleable ? true : undefined}
+      aria-label={announce ? item.name : undefined}
+      className={cn(
+        "relative flex items-center justify-center w-4 h-4",
+        toggleable ? "cursor-pointer hover:opacity-80" : "cursor-not-allowed",
+        item.disabled && "opacity-50"
+      )}
+      title={item.locked ? "Locked" : undefined}
+      onClick={toggleable ? onClick : (e) => e.stopPropagation()}
+    >
+      {item.locked ? (
+        <div className="w-4 h-4 border rounded bg-primary/60 border-primary/60 flex items-center justify-center">
+          <Lock className="h-2.5 w-2.5 text-primary-foreground" />
+        </div>
+      ) : (
+        <>
+          {state === "checked" && (
+            <div className="w-4 h-4 border rounded bg-primary border-primary flex items-center justify-center">
+              <svg
+                className="h-3 w-3 text-primary-foreground"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
               >
-                <CollapsibleTrigger
-                  asChild
-                  onClick={(e) => e.stopPropagation()}
-                >
-                  <Button variant="ghost" size="icon" className="h-6 w-6">
-                    {item.loading ? (
-                      <Loader2 className="h-4 w-4 animate-spin" />
-                    ) : (
-                      <motion.div
-                        initial={false}
-                        animate={{ rotate: isOpen ? 90 : 0 }}
-                        transition={{ duration: 0.1 }}
-                      >
-                        <ChevronRight className="h-4 w-4" />
-                      </motion.div>
-                    )}
-                  </Button>
-                </CollapsibleTrigger>
-              </Collapsible>
-              {showCheckboxes && (
-                <div
-                  className="relative flex items-center justify-center w-4 h-4 cursor-pointer hover:opacity-80"
-                  onClick={handleCheckboxClick}
-                >
-                  {currentCheckState === "checked" && (
-                    <div className="w-4 h-4 border rounded bg-primary border-primary flex items-center justify-center">
-                      <svg
-                        className="h-3 w-3 text-primary-foreground"
-                        fill="none"
-                        viewBox="0 0 24 24"
-                        stroke="currentColor"
-                      >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M5 13l4 4L19 7"
-                        />
-                      </svg>
-                    </div>
-                  )}
-                  {currentCheckState === "unchecked" && (
-                    <div className="w-4 h-4 border rounded border-input" />
-                  )}
-                  {currentCheckState === "indeterminate" && (
-                    <div className="w-4 h-4 border rounded bg-primary border-primary flex items-center justify-center">
-                      <div className="h-0.5 w-2 bg-primary-foreground" />
-                    </div>
-                  )}
-                </div>
-              )}
-              {renderIcon()}
-              <span className="flex-1">{item.name}</span>
-              {item.children && item.children.length > 0 && showCheckboxes && (
-                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
-                  <Input
-                    placeholder="Regex"
-                    value={regexInput}
-                    onChange={(e) => {
-                      setRegexInput(e.target.value);
-                      setRegexError(null);
-                    }}
-                    onClick={(e) => e.stopPropagation()} // Prevent item click
-                    onKeyDown={(e) => e.stopPropagation()} // Prevent item click
-                    className={cn(
-                      "h-7 w-28 text-xs",
-                      regexError && "border-red-500"
-                    )}
-                  />
-                  <Button
-                    size="sm"
-                    className="h-7 px-2 text-xs"
-                    onClick={handleApplyRegex}
-                    disabled={!regexInput.trim()}
-                  >
-                    Apply
-                  </Button>
-                </div>
-              )}
-              <HoverCard>
-                <HoverCardTrigger asChild>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    className="h-6 w-6 p-0 group-hover:opacity-100 opacity-0 items-center justify-center"
-                    onClick={(e) => e.stopPropagation()}
-                  >
-                    <Info className="h-4 w-4 text-muted-foreground" />
-                  </Button>
-                </HoverCardTrigger>
-                <HoverCardContent className="w-80">
-                  <div className="space-y-2">
-                    <h4 className="text-sm font-semibold">{item.name}</h4>
-                    <div className="text-sm text-muted-foreground space-y-1">
-                      <div>
-                        <span className="font-medium">Type:</span>{" "}
-                        {item.type.charAt(0).toUpperCase() +
-                          item.type.slice(1).replace("_", " ")}
-                      </div>
-                      <div>
-                        <span className="font-medium">ID:</span> {item.id}
-                      </div>
-                      <div>
-                        <span className="font-medium">Location:</span>{" "}
-                        {getItemPath(item, allItems)}
-                      </div>
-                      <div>
-                        <span className="font-medium">Items:</span>{" "}
-                        {item.children?.length || 0} direct items
-                      </div>
-                    </div>
-                  </div>
-                </HoverCardContent>
-              </HoverCard>
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M5 13l4 4L19 7"
+                />
+              </svg>
             </div>
-          ) : (
-            <div className="flex items-center gap-2 flex-1 pl-8 group">
-              {showCheckboxes && (
-                <div
-                  className="relative flex items-center justify-center w-4 h-4 cursor-pointer hover:opacity-80"
-                  onClick={handleCheckboxClick}
-                >
-                  {item.checked ? (
-                    <div className="w-4 h-4 border rounded bg-primary border-primary flex items-center justify-center">
-                      <svg
-                        className="h-3 w-3 text-primary-foreground"
-                        fill="none"
-                        viewBox="0 0 24 24"
-                        stroke="currentColor"
-                      >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M5 13l4 4L19 7"
-                        />
-                      </svg>
-                    </div>
-                  ) : (
-                    <div className="w-4 h-4 border rounded border-input" />
-                  )}
-                </div>
+          )}
+          {state === "unchecked" && (
+            <div
+              className={cn(
+                "w-4 h-4 border rounded border-input",
+                item.disabled && "bg-muted"
               )}
-              {renderIcon()}
-              <span className="flex-1">{item.name}</span>
-              <HoverCard>
-                <HoverCardTrigger asChild>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    className="h-6 w-6 p-0 group-hover:opacity-100 opacity-0 items-center justify-center"
-                    onClick={(e) => e.stopPropagation()}
-                  >
-                    <Info className="h-4 w-4 text-muted-foreground" />
-                  </Button>
-                </HoverCardTrigger>
-                <HoverCardContent className="w-80">
-                  <div className="space-y-2">
-                    <h4 className="text-sm font-semibold">{item.name}</h4>
-                    <div className="text-sm text-muted-foreground space-y-1">
-                      <div>
-                        <span className="font-medium">Type:</span>{" "}
-                        {item.type.charAt(0).toUpperCase() +
-                          item.type.slice(1).replace("_", " ")}
-                      </div>
-                      <div>
-                        <span className="font-medium">ID:</span> {item.id}
-                      </div>
-                      <div>
-                        <span className="font-medium">Location:</span>{" "}
-                        {getItemPath(item, allItems)}
-                      </div>
-                    </div>
-                  </div>
-                </HoverCardContent>
-              </HoverCard>
+            />
+          )}
+          {state === "indeterminate" && (
+            <div className="w-4 h-4 border rounded bg-primary border-primary flex items-center justify-center">
+              <div className="h-0.5 w-2 bg-primary-foreground" />
             </div>
           )}
-        </div>
-        {regexError && (
-          <p
-            className="text-red-500 text-xs mt-1 ml-10"
-            style={{ paddingLeft: `${depth * 20}px` }}
-          >
-            {regexError}
-          </p>
-        )}
+        </>
+      )}
+    </div>
+  );
+}
+
+// Inline name editor used for renaming and creating. Enter or leaving the
+// field submits, Escape cancels.
+function TreeItemNameInput({
+  defaultValue,
+  editing,
+  onSubmit,
+  onCancel,
+}: {
+  defaultValue: string;
+  editing: TreeEditingState;
+  onSubmit?: (name: string) => void;
+  onCancel?: () => void;
+}): JSX.Element {
+  return (
+    <div className="flex items-center gap-2 flex-1">
+      <Input
+        autoFocus
+        defaultValue={defaultValue}
+        aria-label="Name"
+        aria-invalid={editing.error ? true : undefined}
+        readOnly={editing.pending}
+        className={cn("h-7 text-sm", editing.error && "border-red-500")}
+        onFocus={(e) => e.currentTarget.select()}
+        onClick={(e) => e.stopPropagation()} // Prevent item click
+        onDoubleClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          e.stopPropagation(); // Keep the tree keys away from the input
+          if (e.key === "Enter") {
+            onSubmit?.(e.currentTarget.value);
+          } else if (e.key === "Escape") {
+            onCancel?.();
+          }
+        }}
+        onBlur={(e) => onSubmit?.(e.currentTarget.value)}
+      />
+      {editing.pending && (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      )}
+    </div>
+  );
+}
+
+// Placeholder row at the top of a folder while naming a node being created
+function TreeItemDraftRow({
+  editing,
+  depth,
+  grid,
+  iconMap = defaultIconMap,
+  onEditSubmit,
+  onEditCancel,
+}: {
+  editing: TreeEditingState;
+  depth: number;
+  grid?: boolean; // Part of a treegrid
+  iconMap?: TreeViewIconMap;
+  onEditSubmit?: (name: string) => void;
+  onEditCancel?: () => void;
+}): JSX.Element {
+  const type =
+    editing.mode === "create" && editing.isFolder ? "folder" : "file";
+  return (
+    <div
+      className="select-none px-1"
+      style={{ paddingLeft: `${depth * 20}px` }}
+      role={grid ? "row" : "none"}
+    >
+      <div
+        className="flex items-center gap-2 h-8 pl-8"
+        role={grid ? "gridcell" : undefined}
+      >
+        {iconMap[type] || defaultIconMap[type]}
+        <TreeItemNameInput
+          defaultValue=""
+          editing={editing}
+          onSubmit={onEditSubmit}
+          onCancel={onEditCancel}
+        />
+      </div>
+      {editing.error && (
+        <p className="text-red-500 text-xs mt-1 ml-10" role="alert">
+          {editing.error}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// Shown in place of the children of a folder whose children failed to load.
+// Retrying goes through onToggleExpand, the same path as the first expand.
+function TreeItemErrorRow({
+  item,
+  depth,
+  grid,
+  onToggleExpand,
+}: {
+  item: TreeViewItem;
+  depth: number;
+  grid?: boolean; // Part of a treegrid
+  onToggleExpand: (id: string, isOpen: boolean, item: TreeViewItem) => void;
+}): JSX.Element {
+  return (
+    <div
+      className="select-none text-red-500 text-xs px-1"
+      style={{ paddingLeft: `${depth * 20}px` }}
+      role={grid ? "row" : "none"}
+    >
+      <div
+        className="flex items-center gap-2 h-8 pl-8"
+        role={grid ? "gridcell" : undefined}
+      >
+        <AlertCircle className="h-4 w-4 shrink-0" />
+        <span className="flex-1 truncate" title={item.error}>
+          Failed to load: {item.error}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggleExpand(item.id, true, item);
+          }}
+        >
+          <RotateCw className="h-3 w-3 mr-1" /> Retry
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Heads a run of siblings of one type with the type and how many there are
+function TreeItemGroupRow({
+  type,
+  count,
+  depth,
+  groupLabels,
+  grid,
+}: {
+  type: string;
+  count: number;
+  depth: number;
+  groupLabels?: Record<string, string>;
+  grid?: boolean; // Part of a treegrid
+}): JSX.Element {
+  return (
+    <div
+      className="select-none text-xs font-medium text-muted-foreground px-1"
+      style={{ paddingLeft: `${depth * 20}px` }}
+      role={grid ? "row" : "none"}
+    >
+      <div
+        className="flex items-center h-7 pl-8"
+        role={grid ? "gridcell" : undefined}
+      >
+        {groupLabels?.[type] ?? formatGroupLabel(type)} ({count})
       </div>
+    </div>
+  );
+}
+
+function TreeItem<TMeta, TDetails>(
+  props: TreeItemProps<TMeta, TDetails>
+): JSX.Element {
+  const {
+    item,
+    depth = 0,
+    expandedIds,
+    onToggleExpand,
+    getIcon,
+    onAction,
+    onCheckChange,
+    allItems,
+    showCheckboxes,
+    itemMap,
+    iconMap,
+    getCheckedItems,
+    checkStrategy,
+    menuItems,
+    selectionClasses,
+    onSelect,
+    getSelectedItems,
+    dropTarget,
+    cutIds,
+    getDragProps,
+    editing,
+    onRenameStart,
+    onEditSubmit,
+    onEditCancel,
+    searchMatches,
+    activeMatchId,
+    getItemDecoration,
+    renderDetails,
+    getDetailsState,
+    onDetailsOpen,
+    groupByType,
+    groupLabels,
+    columns,
+    getColumnWidth,
+    focusedId,
+  } = props;
+  const isOpen = expandedIds.has(item.id);
+  const groupStarts =
+    groupByType && item.children ? getTypeGroupStarts(item.children) : null;
+
+  return (
+    <div role="none">
+      <TreeItemRow {...props} />
+      {item.children && !item.loaded && item.error && isOpen && (
+        <TreeItemErrorRow
+          item={item}
+          depth={depth + 1}
+          grid={!!columns}
+          onToggleExpand={onToggleExpand}
+        />
+      )}
       {item.children &&
         item.loaded && ( // Only render children if loaded
           <Collapsible
@@ -447,22 +1207,70 @@ function TreeItem({
                     animate={{ height: "auto", opacity: 1 }}
                     exit={{ height: 0, opacity: 0 }}
                     transition={{ duration: 0.05 }}
+                    role={columns ? "none" : "group"}
                   >
-                    {item.children?.map((child) => (
-                      <TreeItem
-                        key={child.id}
-                        item={child}
-                        depth={depth + 1}
-                        expandedIds={expandedIds}
-                        onToggleExpand={onToggleExpand}
-                        getIcon={getIcon}
-                        onCheckChange={onCheckChange} // Pass onCheckChange
-                        allItems={allItems}
-                        showCheckboxes={showCheckboxes}
-                        itemMap={itemMap}
-                        iconMap={iconMap}
-                        getCheckedItems={getCheckedItems}
-                      />
+                    {editing?.mode === "create" &&
+                      editing.parentId === item.id && (
+                        <TreeItemDraftRow
+                          editing={editing}
+                          depth={depth + 1}
+                          grid={!!columns}
+                          iconMap={iconMap}
+                          onEditSubmit={onEditSubmit}
+                          onEditCancel={onEditCancel}
+                        />
+                      )}
+                    {item.children?.map((child, index, siblings) => (
+                      <Fragment key={child.id}>
+                        {groupStarts?.has(index) && (
+                          <TreeItemGroupRow
+                            type={child.type}
+                            count={groupStarts.get(index) ?? 0}
+                            depth={depth + 1}
+                            groupLabels={groupLabels}
+                            grid={!!columns}
+                          />
+                        )}
+                        <TreeItem
+                          item={child}
+                          depth={depth + 1}
+                          expandedIds={expandedIds}
+                          onToggleExpand={onToggleExpand}
+                          getIcon={getIcon}
+                          onAction={onAction}
+                          onCheckChange={onCheckChange} // Pass onCheckChange
+                          allItems={allItems}
+                          showCheckboxes={showCheckboxes}
+                          itemMap={itemMap}
+                          iconMap={iconMap}
+                          getCheckedItems={getCheckedItems}
+                          checkStrategy={checkStrategy}
+                          menuItems={menuItems}
+                          selectionClasses={selectionClasses}
+                          onSelect={onSelect}
+                          getSelectedItems={getSelectedItems}
+                          dropTarget={dropTarget}
+                          cutIds={cutIds}
+                          getDragProps={getDragProps}
+                          editing={editing}
+                          onRenameStart={onRenameStart}
+                          onEditSubmit={onEditSubmit}
+                          onEditCancel={onEditCancel}
+                          searchMatches={searchMatches}
+                          activeMatchId={activeMatchId}
+                          getItemDecoration={getItemDecoration}
+                          renderDetails={renderDetails}
+                          getDetailsState={getDetailsState}
+                          onDetailsOpen={onDetailsOpen}
+                          groupByType={groupByType}
+                          groupLabels={groupLabels}
+                          columns={columns}
+                          getColumnWidth={getColumnWidth}
+                          focusedId={focusedId}
+                          posInSet={index + 1}
+                          setSize={siblings.length}
+                        />
+                      </Fragment>
                     ))}
                   </motion.div>
                 </CollapsibleContent>
@@ -474,71 +1282,613 @@ function TreeItem({
   );
 }
 
-export default function TreeView({
+interface TreeGridHeaderProps<TMeta = unknown> {
+  nameHeader: string;
+  columns: TreeViewColumn<TMeta>[]; // All of them, hidden ones included
+  visibleColumns: TreeViewColumn<TMeta>[];
+  sort: TreeColumnSort | null;
+  onSort: (columnId: string) => void;
+  isColumnVisible: (column: TreeViewColumn<TMeta>) => boolean;
+  onColumnVisibleChange: (
+    column: TreeViewColumn<TMeta>,
+    visible: boolean
+  ) => void;
+  getColumnWidth: (column: TreeViewColumn<TMeta>) => number;
+  getResizeHandleProps: (
+    column: TreeViewColumn<TMeta>
+  ) => React.HTMLAttributes<HTMLDivElement>;
+}
+
+// Sticky header row of the treegrid. Sortable headers sort each group of
+// siblings on click, the right edge resizes the column and the context menu
+// shows or hides columns.
+function TreeGridHeader<TMeta>({
+  nameHeader,
+  columns,
+  visibleColumns,
+  sort,
+  onSort,
+  isColumnVisible,
+  onColumnVisibleChange,
+  getColumnWidth,
+  getResizeHandleProps,
+}: TreeGridHeaderProps<TMeta>): JSX.Element {
+  return (
+    <ContextMenu>
+      <ContextMenuTrigger asChild>
+        <div
+          role="row"
+          className="sticky top-0 z-10 flex items-center h-8 px-1 border-b bg-card text-xs font-medium text-muted-foreground"
+          title="Right-click to show or hide columns"
+          onMouseDown={(e) => e.stopPropagation()} // No marquee from the header
+          onKeyDown={(e) => e.stopPropagation()} // Keep the tree keys to the rows
+        >
+          <div role="columnheader" className="flex-1 min-w-0 pl-2 truncate">
+            {nameHeader}
+          </div>
+          {visibleColumns.map((column) => {
+            const direction =
+              sort?.columnId === column.id ? sort.direction : undefined;
+            const sortable = isColumnSortable(column);
+            return (
+              <div
+                key={column.id}
+                role="columnheader"
+                aria-sort={
+                  direction
+                    ? direction === "asc"
+                      ? "ascending"
+                      : "descending"
+                    : sortable
+                      ? "none"
+                      : undefined
+                }
+                className="relative shrink-0 flex items-center h-full px-2"
+                style={{ width: getColumnWidth(column) }}
+              >
+                {sortable ? (
+                  <button
+                    type="button"
+                    className={cn(
+                      "flex items-center gap-1 min-w-0 flex-1 hover:text-foreground outline-none focus-visible:underline",
+                      column.align === "right" && "justify-end",
+                      direction && "text-foreground"
+                    )}
+                    onClick={() => onSort(column.id)}
+                  >
+                    <span className="truncate">{column.header}</span>
+                    {direction === "asc" && (
+                      <ArrowUp className="h-3 w-3 shrink-0" />
+                    )}
+                    {direction === "desc" && (
+                      <ArrowDown className="h-3 w-3 shrink-0" />
+                    )}
+                  </button>
+                ) : (
+                  <span
+                    className={cn(
+                      "flex-1 truncate",
+                      column.align === "right" && "text-right"
+                    )}
+                  >
+                    {column.header}
+                  </span>
+                )}
+                <div
+                  {...getResizeHandleProps(column)}
+                  className="absolute right-0 top-1 bottom-1 w-1.5 rounded-full cursor-col-resize touch-none hover:bg-primary/40 focus-visible:bg-primary/40 outline-none"
+                />
+              </div>
+            );
+          })}
+        </div>
+      </ContextMenuTrigger>
+      <ContextMenuContent>
+        <ContextMenuLabel>Columns</ContextMenuLabel>
+        <ContextMenuSeparator />
+        {columns.map((column) => (
+          <ContextMenuCheckboxItem
+            key={column.id}
+            checked={isColumnVisible(column)}
+            onCheckedChange={(checked) =>
+              onColumnVisibleChange(column, checked)
+            }
+            onSelect={(e) => e.preventDefault()} // Stay open to toggle more
+          >
+            {column.header}
+          </ContextMenuCheckboxItem>
+        ))}
+      </ContextMenuContent>
+    </ContextMenu>
+  );
+}
+
+const exportFormats = Object.keys(treeExportFormats) as TreeExportFormat[];
+
+interface TreeExportBarProps {
+  data: TreeViewItem[];
+  getItemCheckState: (
+    item: TreeViewItem
+  ) => "checked" | "unchecked" | "indeterminate";
+  showCheckboxes: boolean; // Offers exporting just the checked nodes
+  fileName: string;
+  onAnnounce: (message: string) => void;
+}
+
+// Copies or downloads the whole tree, or the checked nodes with the folders
+// leading to them, in one of the export formats
+function TreeExportBar({
+  data,
+  getItemCheckState,
+  showCheckboxes,
+  fileName,
+  onAnnounce,
+}: TreeExportBarProps): JSX.Element {
+  const [format, setFormat] = useState<TreeExportFormat>("json");
+  const [onlyChecked, setOnlyChecked] = useState(showCheckboxes);
+  const [status, setStatus] = useState<string | null>(null);
+  const { label, extension, mimeType } = treeExportFormats[format];
+
+  const getText = () => {
+    const items =
+      showCheckboxes && onlyChecked
+        ? filterCheckedTree(
+            data,
+            (item) => getItemCheckState(item) === "checked"
+          )
+        : data;
+    return exportTree(items, format, { getCheckState: getItemCheckState });
+  };
+
+  const report = (message: string) => {
+    setStatus(message);
+    onAnnounce(message);
+  };
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(getText()).then(
+      () => report(`Copied ${label} to the clipboard`),
+      (error) =>
+        report(
+          `Copy failed: ${error instanceof Error ? error.message : String(error)}`
+        )
+    );
+  };
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      <div className="flex gap-1" role="group" aria-label="Export format">
+        {exportFormats.map((key) => (
+          <Button
+            key={key}
+            variant={key === format ? "secondary" : "ghost"}
+            size="sm"
+            aria-pressed={key === format}
+            onClick={() => {
+              setFormat(key);
+              setStatus(null);
+            }}
+          >
+            {treeExportFormats[key].label}
+          </Button>
+        ))}
+      </div>
+      {showCheckboxes && (
+        <Button
+          variant={onlyChecked ? "secondary" : "outline"}
+          size="sm"
+          aria-pressed={onlyChecked}
+          onClick={() => {
+            setOnlyChecked((prev) => !prev);
+            setStatus(null);
+          }}
+        >
+          Only checked
+        </Button>
+      )}
+      <div className="flex gap-1 ml-auto">
+        <Button variant="outline" size="sm" onClick={handleCopy}>
+          <ClipboardCopy className="h-4 w-4 mr-1" /> Copy
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            downloadText(getText(), `${fileName}.${extension}`, mimeType);
+            setStatus(null);
+          }}
+        >
+          <Download className="h-4 w-4 mr-1" /> Download
+        </Button>
+      </div>
+      {status && (
+        <span className="w-full text-xs text-muted-foreground">{status}</span>
+      )}
+    </div>
+  );
+}
+
+interface TreeQueryBarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  data: TreeViewItem[];
+  itemMap: Map<string, TreeViewItem>;
+  checkStrategy: TreeViewCheckStrategy;
+  showCheckboxes: boolean;
+  checkboxLabels: { check: string; uncheck: string };
+  onCheckChanges: (changes: TreeViewCheckChange[]) => void;
+  onSelect: (items: TreeViewItem[]) => void;
+}
+
+// Tree-wide query over the loaded nodes. Each action shows how many nodes it
+// would change before it is applied as a single batch.
+function TreeQueryBar({
+  query,
+  onQueryChange,
+  data,
+  itemMap,
+  checkStrategy,
+  showCheckboxes,
+  checkboxLabels,
+  onCheckChanges,
+  onSelect,
+}: TreeQueryBarProps): JSX.Element {
+  const trimmedQuery = query.trim();
+
+  const { matches, changes, error } = useMemo(() => {
+    const empty = { check: [], uncheck: [], invert: [] };
+    if (!trimmedQuery) return { matches: [], changes: empty, error: null };
+    try {
+      const getState = (item: TreeViewItem) =>
+        getCheckState(item, itemMap, checkStrategy);
+      const matches = findQueryMatches(
+        data,
+        parseTreeQuery(trimmedQuery),
+        getState
+      );
+      const toggleable = matches
+        .filter(canToggleCheck)
+        .map((item) => ({ item, state: getState(item) }));
+      const toChanges = (
+        entries: typeof toggleable,
+        getChecked: (state: string) => boolean
+      ) =>
+        entries.map(({ item, state }) => ({
+          item,
+          checked: getChecked(state),
+        }));
+      return {
+        matches,
+        changes: {
+          check: toChanges(
+            toggleable.filter(({ state }) => state !== "checked"),
+            () => true
+          ),
+          uncheck: toChanges(
+            toggleable.filter(({ state }) => state !== "unchecked"),
+            () => false
+          ),
+          // Indeterminate folders count as unchecked, like a checkbox click
+          invert: toChanges(toggleable, (state) => state !== "checked"),
+        },
+        error: null,
+      };
+    } catch (error) {
+      return {
+        matches: [],
+        changes: empty,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }, [trimmedQuery, data, itemMap, checkStrategy]);
+
+  const selectable = matches.filter((item) => !item.disabled);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter" && showCheckboxes) {
+      e.preventDefault();
+      onCheckChanges(changes.check);
+    } else if (e.key === "Escape" && query) {
+      e.preventDefault();
+      onQueryChange("");
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <ListFilter className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder='Query, e.g. type:table AND path:"Schema Public/*"'
+            value={query}
+            onChange={(e) => onQueryChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            aria-label="Selection query"
+            aria-invalid={error ? true : undefined}
+            className={cn(
+              "h-9 pl-9 font-mono text-xs",
+              trimmedQuery && "pr-24",
+              error && "border-red-500"
+            )}
+          />
+          {trimmedQuery && !error && (
+            <span
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-muted-foreground tabular-nums"
+              aria-live="polite"
+            >
+              {matches.length} {matches.length === 1 ? "match" : "matches"}
+            </span>
+          )}
+        </div>
+        {showCheckboxes && (
+          <>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={changes.check.length === 0}
+              onClick={() => onCheckChanges(changes.check)}
+              className="text-green-600 hover:text-green-700 hover:bg-green-50"
+              title="Enter"
+            >
+              {checkboxLabels.check}{" "}
+              <span className="tabular-nums">{changes.check.length}</span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={changes.uncheck.length === 0}
+              onClick={() => onCheckChanges(changes.uncheck)}
+              className="text-red-600 hover:text-red-700 hover:bg-red-50"
+            >
+              {checkboxLabels.uncheck}{" "}
+              <span className="tabular-nums">{changes.uncheck.length}</span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={changes.invert.length === 0}
+              onClick={() => onCheckChanges(changes.invert)}
+            >
+              Invert{" "}
+              <span className="tabular-nums">{changes.invert.length}</span>
+            </Button>
+          </>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={selectable.length === 0}
+          onClick={() => onSelect(selectable)}
+        >
+          Select <span className="tabular-nums">{selectable.length}</span>
+        </Button>
+      </div>
+      {error && (
+        <p className="text-red-500 text-xs" role="alert">
+          Invalid query: {error}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default function TreeView<TMeta = unknown, TDetails = unknown>({
   className,
   data, // Now a prop
+  title,
   iconMap,
   searchPlaceholder = "Search...",
+  searchMatcher = "substring",
+  rankSearchResults = true,
+  noResultsText = "No results",
+  onSearch,
+  setData,
+  selectionText = "selected",
+  checkboxLabels = {
+    check: "Check",
+    uncheck: "Uncheck",
+  },
   showExpandAll = true,
   showCheckboxes = false,
+  checkStrategy = "cascade",
   getIcon,
+  getItemDecoration,
+  sort,
+  groupByType = false,
+  groupLabels,
+  columns,
+  nameColumnHeader = "Name",
   onSelectionChange,
+  selectedIds: selectedIdsProp,
+  onSelectedIdsChange,
   onAction,
   onCheckChange, // Now a prop
+  onCheckChanges,
+  showQueryBar = showCheckboxes,
+  showExport = false,
+  exportFileName = title ?? "tree",
+  getExportCheckState,
   menuItems,
   expandedIds, // Now a prop
   onToggleExpand, // Now a prop
   itemMap, // Now a prop
   getCheckedItems, // Now a prop
   setExpandedIds, // Added setExpandedIds prop
-}: TreeViewProps) {
+  virtualize = false,
+  height = 480,
+  estimatedRowHeight = 32,
+  initialScrollTop,
+  onScrollChange,
+  onActivate,
+  onMove,
+  canDrop,
+  onRename,
+  onCreate,
+  onDelete,
+  renderDetails,
+  loadDetails,
+  onUndo,
+  onRedo,
+}: TreeViewProps<TMeta, TDetails>) {
   const [searchQuery, setSearchQuery] = useState("");
+  const [selectionQuery, setSelectionQuery] = useState("");
+  const [exportOpen, setExportOpen] = useState(false);
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const [announcement, setAnnouncement] = useState("");
   const treeRef = useRef<HTMLDivElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const pendingFocusRef = useRef(false);
+  const typeaheadRef = useRef({ query: "", timeout: 0 });
+  const loadingIdsRef = useRef<Set<string> | null>(null);
+  const checkedCountRef = useRef<number | null>(null);
+  const pendingRevealRef = useRef<string | null>(null);
+  const partialLoadIdsRef = useRef<Set<string>>(new Set());
+  const onSearchRef = useRef(onSearch);
+  const onScrollChangeRef = useRef(onScrollChange);
+  useEffect(() => {
+    onSearchRef.current = onSearch;
+    onScrollChangeRef.current = onScrollChange;
+  });
+  const scrollRestoredRef = useRef(!initialScrollTop);
+
+  // Last server-side search, `matchIds` are the ends of the returned chains
+  const [remoteSearch, setRemoteSearch] = useState<{
+    query: string;
+    loading: boolean;
+    matchIds: Set<string>;
+    error?: string;
+  }>({ query: "", loading: false, matchIds: new Set() });
+  const trimmedQuery = searchQuery.trim();
+  const hasQuery = trimmedQuery !== "";
+  const canSearchRemote = Boolean(onSearch && setData);
+  const remoteMatchIds =
+    remoteSearch.query === trimmedQuery ? remoteSearch.matchIds : undefined;
+  // Includes the debounce, so "no results" doesn't flash while typing
+  const remoteSearchPending =
+    canSearchRemote &&
+    hasQuery &&
+    (remoteSearch.query !== trimmedQuery || remoteSearch.loading);
+
+  // Ask the server for matches in folders that haven't been loaded yet and
+  // merge the chains leading to them into the data
+  useEffect(() => {
+    if (!canSearchRemote || !setData || !trimmedQuery) return;
+    const controller = new AbortController();
+    const timeout = window.setTimeout(() => {
+      setRemoteSearch({
+        query: trimmedQuery,
+        loading: true,
+        matchIds: new Set(),
+      });
+      onSearchRef
+        .current?.(trimmedQuery, { signal: controller.signal })
+        .then((paths) => {
+          if (controller.signal.aborted) return;
+          setData((prevData) => mergeItemPaths(prevData, paths));
+          setRemoteSearch({
+            query: trimmedQuery,
+            loading: false,
+            matchIds: new Set(
+              paths.flatMap((path) =>
+                path.length > 0 ? [path[path.length - 1].id] : []
+              )
+            ),
+          });
+        })
+        .catch((error) => {
+          if (controller.signal.aborted) return;
+          setRemoteSearch({
+            query: trimmedQuery,
+            loading: false,
+            matchIds: new Set(),
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+    }, SEARCH_DEBOUNCE);
+    return () => {
+      window.clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [canSearchRemote, setData, trimmedQuery]);
+
+  // Siblings in the order asked for, loaded children are sorted as they
+  // arrive. Only the rendered copy is reordered, the data keeps its order,
+  // and moves can't reorder siblings meanwhile.
+  const sortedData = useMemo(
+    () => (sort ? sortTreeSiblings(data, createSiblingComparator(sort)) : data),
+    [data, sort]
+  );
 
   // Memoize the search results and expanded IDs
-  const { filteredData, searchExpandedIds } = useMemo(() => {
-    if (!searchQuery.trim()) {
-      return { filteredData: data, searchExpandedIds: new Set<string>() };
+  const {
+    filteredData: searchedData,
+    expandedIds: searchExpandedIds,
+    matches: searchMatches,
+    matchIds,
+    error: searchError,
+  } = useMemo(() => {
+    if (!trimmedQuery) {
+      return {
+        filteredData: sortedData,
+        expandedIds: new Set<string>(),
+        matches: new Map<string, TreeViewSearchMatch>(),
+        matchIds: [],
+        error: null,
+      };
     }
-    const searchLower = searchQuery.toLowerCase();
-    const newExpandedIds = new Set<string>();
+    const matcher =
+      typeof searchMatcher === "function"
+        ? searchMatcher
+        : searchMatchers[searchMatcher];
+    return searchTree(
+      sortedData,
+      trimmedQuery,
+      matcher,
+      rankSearchResults,
+      remoteMatchIds
+    );
+  }, [
+    sortedData,
+    trimmedQuery,
+    searchMatcher,
+    rankSearchResults,
+    remoteMatchIds,
+  ]);
 
-    // Helper function to check if an item or its descendants match the search
-    const itemMatches = (item: TreeViewItem): boolean => {
-      const nameMatches = item.name.toLowerCase().includes(searchLower);
-      if (nameMatches) return true;
-      if (item.children) {
-        return item.children.some((child) => itemMatches(child));
-      }
-      return false;
-    };
+  const {
+    visibleColumns,
+    sort: columnSort,
+    toggleSort,
+    isColumnVisible,
+    setColumnVisible,
+    getColumnWidth,
+    getResizeHandleProps,
+    compareItems,
+  } = useTreeColumns(columns);
+  const gridColumns = columns && visibleColumns;
 
-    // Helper function to filter tree while keeping parent structure
-    const filterTree = (items: TreeViewItem[]): TreeViewItem[] => {
-      return items
-        .map((item) => {
-          if (!item.children) {
-            return itemMatches(item) ? item : null;
-          }
-          const filteredChildren = filterTree(item.children);
-          if (filteredChildren.length > 0 || itemMatches(item)) {
-            if (item.children) {
-              newExpandedIds.add(item.id);
-            }
-            return {
-              ...item,
-              children: filteredChildren,
-            };
-          }
-          return null;
-        })
-        .filter((item): item is TreeViewItem => item !== null);
-    };
-    return {
-      filteredData: filterTree(data),
-      searchExpandedIds: newExpandedIds,
-    };
-  }, [data, searchQuery]);
+  // A sorted column reorders each group of siblings, over the search ranking.
+  // Grouping comes last so each type stays in one run.
+  const filteredData = useMemo(() => {
+    const sorted = compareItems
+      ? sortTreeSiblings(searchedData, compareItems)
+      : searchedData;
+    return groupByType ? groupTreeSiblingsByType(sorted) : sorted;
+  }, [searchedData, compareItems, groupByType]);
+  const rootGroupStarts = useMemo(
+    () => (groupByType ? getTypeGroupStarts(filteredData) : null),
+    [filteredData, groupByType]
+  );
+
+  // Index into matchIds of the current match, reset with every new query
+  const [matchCursor, setMatchCursor] = useState({ query: "", index: 0 });
+  const activeMatchIndex =
+    matchCursor.query === searchQuery
+      ? Math.min(matchCursor.index, matchIds.length - 1)
+      : 0;
+  const activeMatchId = matchIds[activeMatchIndex] ?? null;
 
   // Update expanded IDs when search changes
   useEffect(() => {
@@ -550,6 +1900,583 @@ export default function TreeView({
     }
   }, [searchExpandedIds, searchQuery, setExpandedIds]);
 
+  const {
+    editing,
+    pendingDelete,
+    startRename,
+    startCreate,
+    cancelEdit,
+    submitEdit,
+    requestDelete,
+    cancelDelete,
+    confirmDelete,
+  } = useTreeEditing({
+    itemMap,
+    expandedIds,
+    onToggleExpand,
+    onRename,
+    onCreate,
+    onDelete,
+    onAnnounce: setAnnouncement,
+    treeRef,
+  });
+  const draftParentId = editing?.mode === "create" ? editing.parentId : null;
+
+  // Flattened rows in render order, used by the windowed renderer and
+  // keyboard navigation alike
+  const visibleRows = useMemo(
+    () =>
+      flattenVisibleTree(filteredData, expandedIds, draftParentId, groupByType),
+    [filteredData, expandedIds, draftParentId, groupByType]
+  );
+
+  const rowIndexById = useMemo(() => {
+    const map = new Map<string, number>();
+    visibleRows.forEach((row, index) => {
+      if (row.kind === "item") map.set(row.item.id, index);
+    });
+    return map;
+  }, [visibleRows]);
+
+  const getRowKey = useCallback(
+    (index: number) => {
+      const row = visibleRows[index];
+      return row.kind === "item" ? row.item.id : `${row.item.id}:${row.kind}`;
+    },
+    [visibleRows]
+  );
+
+  const {
+    virtualRows,
+    totalSize,
+    measureElement,
+    scrollToIndex,
+    getIndexRange,
+  } = useVirtualRows({
+    count: visibleRows.length,
+    getKey: getRowKey,
+    scrollRef,
+    estimateSize: estimatedRowHeight,
+    enabled: virtualize,
+    headerSize: columns ? GRID_HEADER_HEIGHT : 0,
+  });
+
+  // Restore the scroll offset once there is enough content to scroll that
+  // far, folders reopened from saved state may still be loading
+  useEffect(() => {
+    const scrollElement = virtualize
+      ? scrollRef.current
+      : document.scrollingElement;
+    if (!scrollElement || scrollRestoredRef.current) return;
+    scrollElement.scrollTop = initialScrollTop ?? 0;
+    scrollRestoredRef.current =
+      Math.abs(scrollElement.scrollTop - (initialScrollTop ?? 0)) < 1;
+  }, [initialScrollTop, virtualize, visibleRows.length, totalSize]);
+
+  // Report scrolling, but not before the saved offset is back
+  useEffect(() => {
+    const scrollElement = virtualize
+      ? scrollRef.current
+      : document.scrollingElement;
+    const target = virtualize ? scrollRef.current : window;
+    if (!scrollElement || !target) return;
+    const handleScroll = () => {
+      if (scrollRestoredRef.current) {
+        onScrollChangeRef.current?.(scrollElement.scrollTop);
+      }
+    };
+    target.addEventListener("scroll", handleScroll, { passive: true });
+    return () => target.removeEventListener("scroll", handleScroll);
+  }, [virtualize]);
+
+  const {
+    selectedIds,
+    selectionClasses,
+    marqueeRect,
+    getEffectiveSelectedItems,
+    getSelectionFor,
+    handleRowSelect,
+    handleMarqueeMouseDown,
+    selectRange,
+    toggleSelected,
+    selectAll,
+    clearSelection,
+    updateSelection,
+  } = useTreeSelection({
+    data,
+    visibleRows,
+    rowIndexById,
+    selectedIds: selectedIdsProp,
+    onSelectedIdsChange,
+    onSelectionChange,
+    treeRef,
+    contentRef,
+    scrollRef,
+    virtualize,
+    getIndexRange,
+  });
+
+  const { getDetailsState, requestDetails } = useTreeDetails(loadDetails);
+  const onDetailsOpen = loadDetails ? requestDetails : undefined;
+
+  const { dropTarget, cutIds, getDragProps, handleMoveKeyDown } =
+    useTreeDragDrop({
+      data,
+      itemMap,
+      expandedIds,
+      onToggleExpand,
+      onMove,
+      canDrop,
+      getSelectionFor,
+      onAnnounce: setAnnouncement,
+      // The order on screen isn't the data's, so there is no place to move
+      // a row to among its siblings. Ranked search results count as sorted.
+      reorderable:
+        !sort &&
+        !compareItems &&
+        !groupByType &&
+        !(hasQuery && rankSearchResults),
+    });
+
+  const applyCheckChanges = useCallback(
+    (changes: TreeViewCheckChange[]) => {
+      if (changes.length === 0) return;
+      if (onCheckChanges) {
+        onCheckChanges(changes);
+      } else {
+        changes.forEach(({ item, checked }) => onCheckChange(item, checked));
+      }
+    },
+    [onCheckChanges, onCheckChange]
+  );
+
+  const selectItems = useCallback(
+    (items: TreeViewItem[]) =>
+      updateSelection(new Set(items.map((item) => item.id))),
+    [updateSelection]
+  );
+
+  // Built-in entries for the query bar and the enabled edit callbacks, ahead
+  // of the app's own
+  const resolvedMenuItems = useMemo((): TreeViewMenuItem[] => {
+    const entries: TreeViewMenuItem[] = [];
+    if (showQueryBar) {
+      entries.push(
+        {
+          id: "select-type",
+          label: "Select all of this type",
+          icon: <ListChecks className="h-4 w-4" />,
+          action: (_items, item) => {
+            setSelectionQuery(`type:${quoteQueryValue(item.type)}`);
+            selectItems(
+              [...itemMap.values()].filter((node) => node.type === item.type)
+            );
+          },
+        },
+        {
+          id: "query-folder",
+          label: "Query in this folder",
+          icon: <FolderSearch className="h-4 w-4" />,
+          hidden: (item) => !item.children,
+          action: (_items, item) => {
+            const path = getItemNamePath(data, item.id) ?? item.name;
+            setSelectionQuery(`path:${quoteQueryValue(`/${path}/*`)} `);
+          },
+        }
+      );
+    }
+    if (onCreate) {
+      entries.push(
+        {
+          id: "new-folder",
+          label: "New folder",
+          icon: <FolderPlus className="h-4 w-4" />,
+          hidden: (item) => !item.children,
+          disabled: (item) => !item.loaded || !!item.disabled,
+          action: (_items, item) => startCreate(item, true),
+        },
+        {
+          id: "new-item",
+          label: "New item",
+          icon: <FilePlus className="h-4 w-4" />,
+          hidden: (item) => !item.children,
+          disabled: (item) => !item.loaded || !!item.disabled,
+          action: (_items, item) => startCreate(item, false),
+        }
+      );
+    }
+    if (onRename) {
+      entries.push({
+        id: "rename",
+        label: "Rename",
+        icon: <Pencil className="h-4 w-4" />,
+        shortcut: "F2",
+        disabled: (item) => !!item.disabled,
+        action: (_items, item) => startRename(item),
+      });
+    }
+    if (onDelete) {
+      entries.push({
+        id: "delete",
+        label: "Delete",
+        icon: <Trash2 className="h-4 w-4" />,
+        shortcut: "Del",
+        variant: "destructive",
+        disabled: (item) => !!item.disabled,
+        action: (_items, item) => requestDelete(getSelectionFor(item)),
+      });
+    }
+    if (entries.length === 0) return menuItems ?? [];
+    return [
+      ...entries,
+      { id: "edit-separator", type: "separator" },
+      ...(menuItems ?? []),
+    ];
+  }, [
+    menuItems,
+    showQueryBar,
+    selectItems,
+    itemMap,
+    data,
+    onCreate,
+    onRename,
+    onDelete,
+    startCreate,
+    startRename,
+    requestDelete,
+    getSelectionFor,
+  ]);
+
+  // Roving focus: fall back to the first row once the focused one is hidden
+  const activeId =
+    focusedId !== null && rowIndexById.has(focusedId)
+      ? focusedId
+      : (visibleRows.find((row) => row.kind === "item")?.item.id ?? null);
+
+  // Move DOM focus after keyboard navigation. In windowed mode the row may
+  // only mount after the scroll, so this retries whenever the window moves.
+  useEffect(() => {
+    if (!pendingFocusRef.current || !activeId) return;
+    const element = treeRef.current?.querySelector<HTMLElement>(
+      `[data-tree-item][data-id="${CSS.escape(activeId)}"]`
+    );
+    if (element) {
+      pendingFocusRef.current = false;
+      element.focus({ preventScroll: virtualize });
+    }
+  }, [activeId, virtualRows, virtualize]);
+
+  // Announce lazy loads starting and finishing to screen readers
+  useEffect(() => {
+    const loadingIds = new Set<string>();
+    itemMap.forEach((node) => {
+      if (node.loading) loadingIds.add(node.id);
+    });
+    const previousLoadingIds = loadingIdsRef.current;
+    loadingIdsRef.current = loadingIds;
+    if (!previousLoadingIds) return;
+
+    const messages: string[] = [];
+    loadingIds.forEach((id) => {
+      if (!previousLoadingIds.has(id)) {
+        messages.push(`Loading ${itemMap.get(id)?.name}…`);
+      }
+    });
+    previousLoadingIds.forEach((id) => {
+      const node = itemMap.get(id);
+      if (loadingIds.has(id) || !node) return;
+      if (node.error) {
+        messages.push(`Failed to load ${node.name}`);
+      } else if (node.loaded) {
+        messages.push(
+          `${node.name} loaded, ${node.children?.length ?? 0} items`
+        );
+      }
+    });
+    if (messages.length > 0) {
+      setAnnouncement(messages.join(". "));
+    }
+  }, [itemMap]);
+
+  // Announce changes in the number of checked items
+  useEffect(() => {
+    if (!showCheckboxes) return;
+    const checkedCount = getCheckedItems().length;
+    const previousCheckedCount = checkedCountRef.current;
+    checkedCountRef.current = checkedCount;
+    if (
+      previousCheckedCount !== null &&
+      previousCheckedCount !== checkedCount
+    ) {
+      setAnnouncement(
+        `${checkedCount} ${checkedCount === 1 ? "item" : "items"} checked`
+      );
+    }
+  }, [getCheckedItems, showCheckboxes]);
+
+  // Folders that only hold search results load the rest of their children
+  // once they are open outside of a search, once per search
+  useEffect(() => {
+    const requestedIds = partialLoadIdsRef.current;
+    if (hasQuery) {
+      requestedIds.clear();
+      return;
+    }
+    expandedIds.forEach((id) => {
+      const node = itemMap.get(id);
+      if (!node?.partial || requestedIds.has(id)) return;
+      requestedIds.add(id);
+      onToggleExpand(id, true, node);
+    });
+  }, [hasQuery, expandedIds, itemMap, onToggleExpand]);
+
+  // Announce the number of results as the query changes
+  useEffect(() => {
+    if (!hasQuery || remoteSearchPending) return;
+    setAnnouncement(
+      searchError
+        ? `Invalid search: ${searchError}`
+        : matchIds.length === 0
+          ? noResultsText
+          : `${matchIds.length} ${matchIds.length === 1 ? "result" : "results"}`
+    );
+  }, [
+    hasQuery,
+    remoteSearchPending,
+    matchIds.length,
+    searchError,
+    noResultsText,
+  ]);
+
+  const moveFocus = (index: number): string | null => {
+    const row = visibleRows[index];
+    if (!row || row.kind !== "item") return null;
+    pendingFocusRef.current = true;
+    setFocusedId(row.item.id);
+    if (virtualize) {
+      scrollToIndex(index);
+    }
+    return row.item.id;
+  };
+
+  // Jump to the next row whose name starts with the typed characters.
+  // Repeating one character cycles through the rows starting with it.
+  const handleTypeahead = (char: string, fromIndex: number) => {
+    const typeahead = typeaheadRef.current;
+    window.clearTimeout(typeahead.timeout);
+    typeahead.query += char.toLowerCase();
+    typeahead.timeout = window.setTimeout(() => {
+      typeahead.query = "";
+    }, TYPEAHEAD_TIMEOUT);
+
+    const isRepeatedChar = typeahead.query
+      .split("")
+      .every((c) => c === typeahead.query[0]);
+    const query = isRepeatedChar ? typeahead.query[0] : typeahead.query;
+    const startIndex = query.length === 1 ? fromIndex + 1 : fromIndex;
+    for (let offset = 0; offset < visibleRows.length; offset++) {
+      const index = (startIndex + offset) % visibleRows.length;
+      const row = visibleRows[index];
+      if (
+        row.kind === "item" &&
+        row.item.name.toLowerCase().startsWith(query)
+      ) {
+        moveFocus(index);
+        return;
+      }
+    }
+  };
+
+  // Move focus to the next item row in `step` direction, skipping rows like
+  // the inline load error that are not tree items themselves
+  const stepFocus = (fromIndex: number, step: 1 | -1) => {
+    let index = fromIndex + step;
+    while (visibleRows[index] && visibleRows[index].kind !== "item") {
+      index += step;
+    }
+    return moveFocus(index);
+  };
+
+  // Bring a row into view, opening its folders first if they were collapsed
+  // since the search expanded them
+  const revealRow = (id: string) => {
+    const rowIndex = rowIndexById.get(id);
+    if (rowIndex === undefined) {
+      pendingRevealRef.current = id;
+      setExpandedIds((prev) => new Set([...prev, ...getAncestorIds(data, id)]));
+    } else if (virtualize) {
+      scrollToIndex(rowIndex);
+    } else {
+      treeRef.current
+        ?.querySelector(`[data-tree-item][data-id="${CSS.escape(id)}"]`)
+        ?.scrollIntoView({ block: "nearest" });
+    }
+  };
+
+  useEffect(() => {
+    const id = pendingRevealRef.current;
+    if (id === null || !rowIndexById.has(id)) return;
+    pendingRevealRef.current = null;
+    revealRow(id);
+  });
+
+  // Step through the matches, focus stays in the search box and the row
+  // becomes the tab stop of the tree
+  const goToMatch = (step: 1 | -1) => {
+    if (matchIds.length === 0) return;
+    const index = (activeMatchIndex + step + matchIds.length) % matchIds.length;
+    setMatchCursor({ query: searchQuery, index });
+    setFocusedId(matchIds[index]);
+    revealRow(matchIds[index]);
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      goToMatch(e.shiftKey ? -1 : 1);
+    } else if (e.key === "Escape" && searchQuery) {
+      e.preventDefault();
+      setSearchQuery("");
+    }
+  };
+
+  const handleTreeKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    // Ignore keys typed into inputs nested in a row (e.g. the rename input)
+    const target = e.target as HTMLElement;
+    if (!target.hasAttribute("data-tree-item")) return;
+
+    const index = activeId !== null ? (rowIndexById.get(activeId) ?? -1) : -1;
+    const row = visibleRows[index];
+    if (!row) return;
+    // Prefer the original item over the search copy for expand/check calls
+    const item = itemMap.get(row.item.id) ?? row.item;
+    const isOpen = expandedIds.has(item.id);
+
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "a") {
+      e.preventDefault();
+      selectAll();
+      return;
+    }
+    const historyAction = e.shiftKey ? onRedo : onUndo;
+    if (
+      (e.ctrlKey || e.metaKey) &&
+      e.key.toLowerCase() === "z" &&
+      historyAction
+    ) {
+      e.preventDefault();
+      historyAction();
+      // Undoing a move remounts the row elsewhere, keep it focused
+      pendingFocusRef.current = true;
+      return;
+    }
+    if (handleMoveKeyDown(e, item, row.parentId)) {
+      // The moved row may remount under its new parent, keep it focused
+      e.preventDefault();
+      pendingFocusRef.current = true;
+      return;
+    }
+    if (e.altKey || e.ctrlKey || e.metaKey) return;
+
+    switch (e.key) {
+      case "ArrowDown":
+      case "ArrowUp": {
+        const nextId = stepFocus(index, e.key === "ArrowDown" ? 1 : -1);
+        // Shift+Arrow extends the selection from the anchor
+        if (e.shiftKey && nextId !== null) {
+          selectRange(nextId);
+        }
+        break;
+      }
+      case "Home":
+        stepFocus(-1, 1);
+        break;
+      case "End":
+        stepFocus(visibleRows.length, -1);
+        break;
+      case "ArrowRight":
+        if (!item.children) break;
+        if (!isOpen) {
+          onToggleExpand(item.id, true, item);
+        } else {
+          // The first child may come after a type group header
+          let childIndex = index + 1;
+          while (visibleRows[childIndex]?.kind === "group") childIndex++;
+          if (
+            visibleRows[childIndex]?.kind === "item" &&
+            visibleRows[childIndex].parentId === item.id
+          ) {
+            moveFocus(childIndex);
+          }
+        }
+        break;
+      case "ArrowLeft":
+        if (item.children && isOpen) {
+          onToggleExpand(item.id, false, item);
+        } else if (row.parentId !== null) {
+          moveFocus(rowIndexById.get(row.parentId) ?? index);
+        }
+        break;
+      case " ":
+        if (showCheckboxes) {
+          if (!canToggleCheck(item)) break;
+          onCheckChange(
+            item,
+            getCheckState(item, itemMap, checkStrategy) !== "checked"
+          );
+        } else {
+          toggleSelected(item.id);
+        }
+        break;
+      case "F2":
+        startRename(item);
+        break;
+      case "Delete":
+        requestDelete(getSelectionFor(item));
+        break;
+      case "Enter":
+        if (onActivate) {
+          onActivate(item);
+        } else if (item.children) {
+          onToggleExpand(item.id, !isOpen, item);
+        }
+        break;
+      case "*":
+        // Expand every folder on the same level as the focused row
+        visibleRows.forEach((sibling) => {
+          if (
+            sibling.kind === "item" &&
+            sibling.parentId === row.parentId &&
+            sibling.item.children &&
+            !expandedIds.has(sibling.item.id)
+          ) {
+            onToggleExpand(
+              sibling.item.id,
+              true,
+              itemMap.get(sibling.item.id) ?? sibling.item
+            );
+          }
+        });
+        break;
+      default:
+        if (e.key.length === 1 && e.key.trim()) {
+          handleTypeahead(e.key, index);
+          break;
+        }
+        return;
+    }
+    e.preventDefault();
+  };
+
+  // Keep the roving tab stop on whichever row was last focused (e.g. clicked)
+  const handleTreeFocus = (e: React.FocusEvent<HTMLDivElement>) => {
+    const rowElement = (e.target as HTMLElement).closest<HTMLElement>(
+      "[data-tree-item]"
+    );
+    if (rowElement?.dataset.id) {
+      setFocusedId(rowElement.dataset.id);
+    }
+  };
+
   // Function to collect all folder IDs
   const getAllFolderIds = (items: TreeViewItem[]): string[] => {
     let ids: string[] = [];
@@ -574,66 +2501,421 @@ export default function TreeView({
     ); // Pass item
   };
 
+  const marqueeOverlay = marqueeRect && (
+    <div
+      className="absolute inset-x-0 z-10 bg-primary/10 border border-primary/30 rounded-sm pointer-events-none"
+      style={{ top: marqueeRect.top, height: marqueeRect.height }}
+    />
+  );
+
+  const gridHeader = columns && (
+    <TreeGridHeader
+      nameHeader={nameColumnHeader}
+      columns={columns}
+      visibleColumns={visibleColumns}
+      sort={columnSort}
+      onSort={toggleSort}
+      isColumnVisible={isColumnVisible}
+      onColumnVisibleChange={setColumnVisible}
+      getColumnWidth={getColumnWidth}
+      getResizeHandleProps={getResizeHandleProps}
+    />
+  );
+
   return (
     <div
       ref={treeRef}
       className="bg-background p-6 rounded-xl border max-w-2xl space-y-4 w-[600px] relative shadow-lg"
     >
       <AnimatePresence mode="wait">
-        <motion.div
-          key="header"
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          exit={{ opacity: 0, y: 20 }}
-          className="h-10 flex items-center gap-2"
-        >
-          <div className="relative flex-1">
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-            <Input
-              placeholder={searchPlaceholder}
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="h-10 pl-9"
-            />
-          </div>
-          {showExpandAll && (
-            <div className="flex gap-2 shrink-0">
+        {pendingDelete ? (
+          <motion.div
+            key="delete"
+            initial={{ opacity: 0, y: -20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -20 }}
+            className="h-10 flex items-center justify-between bg-background rounded-lg border border-red-200 px-4"
+            role="alertdialog"
+            aria-label="Confirm delete"
+            onKeyDown={(e) => {
+              if (e.key === "Escape") cancelDelete();
+            }}
+          >
+            <div className="font-medium flex items-center min-w-0">
+              <AlertCircle className="h-4 w-4 mr-2 shrink-0 text-red-600" />
+              <span className="truncate">
+                {pendingDelete.error
+                  ? `Failed to delete: ${pendingDelete.error}`
+                  : `Delete ${describeItems(pendingDelete.items)}?`}
+              </span>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
               <Button
                 variant="ghost"
                 size="sm"
-                className="h-10 px-2"
-                onClick={handleExpandAll}
+                autoFocus
+                onClick={cancelDelete}
               >
-                <ChevronDown className="h-4 w-4 mr-1" /> Expand All
+                Cancel
               </Button>
               <Button
-                variant="ghost"
+                variant="destructive"
                 size="sm"
-                className="h-10 px-2"
-                onClick={handleCollapseAll}
+                disabled={pendingDelete.pending}
+                onClick={async () => {
+                  if (await confirmDelete()) {
+                    clearSelection();
+                  }
+                }}
               >
-                <ChevronRight className="h-4 w-4 mr-1" /> Collapse All
+                {pendingDelete.pending && (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                )}
+                Delete
               </Button>
             </div>
-          )}
-        </motion.div>
+          </motion.div>
+        ) : selectedIds.size > 1 ? (
+          // A single selected row is just the cursor, the bar shows up for
+          // actual multi-selections
+          <motion.div
+            key="selection"
+            initial={{ opacity: 0, y: -20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -20 }}
+            className="h-10 flex items-center justify-between bg-background rounded-lg border px-4"
+          >
+            <div
+              className="font-medium cursor-pointer flex items-center"
+              title="Clear selection"
+              onClick={clearSelection}
+            >
+              <X className="h-4 w-4 mr-2" />
+              {selectedIds.size} {selectionText}
+            </div>
+            {showCheckboxes && (
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    applyCheckChanges(
+                      getEffectiveSelectedItems().map((item) => ({
+                        item,
+                        checked: true,
+                      }))
+                    )
+                  }
+                  className="text-green-600 hover:text-green-700 hover:bg-green-50"
+                >
+                  {checkboxLabels.check}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    applyCheckChanges(
+                      getEffectiveSelectedItems().map((item) => ({
+                        item,
+                        checked: false,
+                      }))
+                    )
+                  }
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                >
+                  {checkboxLabels.uncheck}
+                </Button>
+              </div>
+            )}
+          </motion.div>
+        ) : (
+          <motion.div
+            key="header"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 20 }}
+            className="h-10 flex items-center gap-2"
+          >
+            <div className="relative flex-1">
+              {remoteSearchPending ? (
+                <Loader2 className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground animate-spin" />
+              ) : (
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              )}
+              <Input
+                placeholder={searchPlaceholder}
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                onKeyDown={handleSearchKeyDown}
+                aria-invalid={searchError ? true : undefined}
+                className={cn(
+                  "h-10 pl-9",
+                  hasQuery && "pr-20",
+                  searchError && "border-red-500"
+                )}
+              />
+              {hasQuery && matchIds.length > 0 && (
+                <span
+                  className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-muted-foreground tabular-nums"
+                  title="Enter / Shift+Enter to go to the next / previous match"
+                >
+                  {activeMatchIndex + 1} of {matchIds.length}
+                </span>
+              )}
+            </div>
+            {showExpandAll && (
+              <div className="flex gap-2 shrink-0">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-10 px-2"
+                  onClick={handleExpandAll}
+                >
+                  <ChevronDown className="h-4 w-4 mr-1" /> Expand All
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-10 px-2"
+                  onClick={handleCollapseAll}
+                >
+                  <ChevronRight className="h-4 w-4 mr-1" /> Collapse All
+                </Button>
+              </div>
+            )}
+            {showExport && (
+              <Button
+                variant={exportOpen ? "secondary" : "ghost"}
+                size="sm"
+                className="h-10 px-2 shrink-0"
+                aria-pressed={exportOpen}
+                onClick={() => setExportOpen((prev) => !prev)}
+              >
+                <Download className="h-4 w-4 mr-1" /> Export
+              </Button>
+            )}
+          </motion.div>
+        )}
       </AnimatePresence>
-      <div className={cn("rounded-lg bg-card relative select-none", className)}>
-        {filteredData.map((item) => (
-          <TreeItem
-            key={item.id}
-            item={item}
-            expandedIds={expandedIds}
-            onToggleExpand={onToggleExpand}
-            getIcon={getIcon}
-            onCheckChange={onCheckChange} // Pass onCheckChange
-            allItems={data} // Pass the original full data for path generation
-            showCheckboxes={showCheckboxes}
-            itemMap={itemMap}
-            iconMap={iconMap}
-            getCheckedItems={getCheckedItems}
-          />
-        ))}
+      {showExport && exportOpen && (
+        <TreeExportBar
+          data={sortedData}
+          getItemCheckState={
+            getExportCheckState ??
+            ((item) => getCheckState(item, itemMap, checkStrategy))
+          }
+          showCheckboxes={showCheckboxes}
+          fileName={exportFileName}
+          onAnnounce={setAnnouncement}
+        />
+      )}
+      {showQueryBar && (
+        <TreeQueryBar
+          query={selectionQuery}
+          onQueryChange={setSelectionQuery}
+          data={data}
+          itemMap={itemMap}
+          checkStrategy={checkStrategy}
+          showCheckboxes={showCheckboxes}
+          checkboxLabels={checkboxLabels}
+          onCheckChanges={applyCheckChanges}
+          onSelect={selectItems}
+        />
+      )}
+      {hasQuery && matchIds.length === 0 ? (
+        <div className="rounded-lg bg-card flex flex-col items-center justify-center gap-2 py-10 text-sm text-muted-foreground">
+          {remoteSearchPending ? (
+            <Loader2 className="h-6 w-6 animate-spin" />
+          ) : (
+            <Search className="h-6 w-6" />
+          )}
+          <span className={cn(searchError && "text-red-500")}>
+            {searchError
+              ? `Invalid search: ${searchError}`
+              : remoteSearchPending
+                ? "Searching…"
+                : `${noResultsText} for "${trimmedQuery}"`}
+          </span>
+          {remoteSearch.error && remoteSearch.query === trimmedQuery && (
+            <span className="text-xs text-red-500">
+              Server search failed: {remoteSearch.error}
+            </span>
+          )}
+          <Button variant="ghost" size="sm" onClick={() => setSearchQuery("")}>
+            Clear search
+          </Button>
+        </div>
+      ) : virtualize ? (
+        <div
+          ref={scrollRef}
+          className={cn(
+            "rounded-lg bg-card relative select-none overflow-auto",
+            className
+          )}
+          style={{ height }}
+          role={columns ? "treegrid" : "tree"}
+          aria-busy={remoteSearchPending || undefined}
+          aria-label={title}
+          aria-multiselectable
+          onKeyDown={handleTreeKeyDown}
+          onFocus={handleTreeFocus}
+          onMouseDown={handleMarqueeMouseDown}
+        >
+          {gridHeader}
+          <div
+            ref={contentRef}
+            className="relative w-full"
+            style={{ height: totalSize }}
+          >
+            {marqueeOverlay}
+            {virtualRows.map(({ index, key, start }) => {
+              const { kind, item, depth, posInSet, setSize, groupSize } =
+                visibleRows[index];
+              return (
+                <div
+                  key={key}
+                  ref={measureElement}
+                  data-virtual-key={key}
+                  className="absolute left-0 top-0 w-full"
+                  style={{ transform: `translateY(${start}px)` }}
+                >
+                  {kind === "group" ? (
+                    <TreeItemGroupRow
+                      type={item.type}
+                      count={groupSize ?? 0}
+                      depth={depth}
+                      groupLabels={groupLabels}
+                      grid={!!gridColumns}
+                    />
+                  ) : kind === "error" ? (
+                    <TreeItemErrorRow
+                      item={item}
+                      depth={depth}
+                      grid={!!gridColumns}
+                      onToggleExpand={onToggleExpand}
+                    />
+                  ) : kind === "draft" && editing ? (
+                    <TreeItemDraftRow
+                      editing={editing}
+                      depth={depth}
+                      grid={!!gridColumns}
+                      iconMap={iconMap}
+                      onEditSubmit={submitEdit}
+                      onEditCancel={cancelEdit}
+                    />
+                  ) : (
+                    <TreeItemRow
+                      item={item}
+                      depth={depth}
+                      expandedIds={expandedIds}
+                      onToggleExpand={onToggleExpand}
+                      getIcon={getIcon}
+                      onAction={onAction}
+                      onCheckChange={onCheckChange}
+                      allItems={data}
+                      showCheckboxes={showCheckboxes}
+                      itemMap={itemMap}
+                      iconMap={iconMap}
+                      getCheckedItems={getCheckedItems}
+                      checkStrategy={checkStrategy}
+                      menuItems={resolvedMenuItems}
+                      selectionClasses={selectionClasses}
+                      onSelect={handleRowSelect}
+                      getSelectedItems={getEffectiveSelectedItems}
+                      dropTarget={dropTarget}
+                      cutIds={cutIds}
+                      getDragProps={getDragProps}
+                      editing={editing}
+                      onRenameStart={onRename && startRename}
+                      onEditSubmit={submitEdit}
+                      onEditCancel={cancelEdit}
+                      searchMatches={searchMatches}
+                      activeMatchId={activeMatchId}
+                      getItemDecoration={getItemDecoration}
+                      renderDetails={renderDetails}
+                      getDetailsState={getDetailsState}
+                      onDetailsOpen={onDetailsOpen}
+                      columns={gridColumns}
+                      getColumnWidth={getColumnWidth}
+                      focusedId={activeId}
+                      posInSet={posInSet}
+                      setSize={setSize}
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ) : (
+        <div
+          className={cn("rounded-lg bg-card relative select-none", className)}
+          ref={contentRef}
+          role={columns ? "treegrid" : "tree"}
+          aria-busy={remoteSearchPending || undefined}
+          aria-label={title}
+          aria-multiselectable
+          onKeyDown={handleTreeKeyDown}
+          onFocus={handleTreeFocus}
+          onMouseDown={handleMarqueeMouseDown}
+        >
+          {gridHeader}
+          {marqueeOverlay}
+          {filteredData.map((item, index) => (
+            <Fragment key={item.id}>
+              {rootGroupStarts?.has(index) && (
+                <TreeItemGroupRow
+                  type={item.type}
+                  count={rootGroupStarts.get(index) ?? 0}
+                  depth={0}
+                  groupLabels={groupLabels}
+                  grid={!!gridColumns}
+                />
+              )}
+              <TreeItem
+                item={item}
+                expandedIds={expandedIds}
+                onToggleExpand={onToggleExpand}
+                getIcon={getIcon}
+                onAction={onAction}
+                onCheckChange={onCheckChange} // Pass onCheckChange
+                allItems={data} // Pass the original full data for path generation
+                showCheckboxes={showCheckboxes}
+                itemMap={itemMap}
+                iconMap={iconMap}
+                getCheckedItems={getCheckedItems}
+                checkStrategy={checkStrategy}
+                menuItems={resolvedMenuItems}
+                selectionClasses={selectionClasses}
+                onSelect={handleRowSelect}
+                getSelectedItems={getEffectiveSelectedItems}
+                dropTarget={dropTarget}
+                cutIds={cutIds}
+                getDragProps={getDragProps}
+                editing={editing}
+                onRenameStart={onRename && startRename}
+                onEditSubmit={submitEdit}
+                onEditCancel={cancelEdit}
+                searchMatches={searchMatches}
+                activeMatchId={activeMatchId}
+                getItemDecoration={getItemDecoration}
+                renderDetails={renderDetails}
+                getDetailsState={getDetailsState}
+                onDetailsOpen={onDetailsOpen}
+                groupByType={groupByType}
+                groupLabels={groupLabels}
+                columns={gridColumns}
+                getColumnWidth={getColumnWidth}
+                focusedId={activeId}
+                posInSet={index + 1}
+                setSize={filteredData.length}
+              />
+            </Fragment>
+          ))}
+        </div>
+      )}
+      <div role="status" aria-live="polite" className="sr-only">
+        {announcement}
       </div>
     </div>
   );
@@ -0,0 +1,170 @@
+import type {
+  TreeViewCellValue,
+  TreeViewColumn,
+  TreeViewItem,
+} from "@/components/tree-view";
+import { compareNatural } from "@/lib/tree-sort";
+import { useCallback, useMemo, useRef, useState } from "react";
+
+const DEFAULT_COLUMN_WIDTH = 120;
+const DEFAULT_MIN_COLUMN_WIDTH = 48;
+// How far the arrow keys move a focused resize handle
+const KEYBOARD_RESIZE_STEP = 16;
+
+export interface TreeColumnSort {
+  columnId: string;
+  direction: "asc" | "desc";
+}
+
+const isEmptyValue = (value: TreeViewCellValue) =>
+  value === null || value === undefined || value === "";
+
+// Compares two non-empty values, numbers and dates by size and text in
+// natural order so "table2" comes before "table10"
+const compareCellValues = (a: TreeViewCellValue, b: TreeViewCellValue) => {
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "boolean" && typeof b === "boolean") {
+    return Number(a) - Number(b);
+  }
+  return compareNatural(String(a), String(b));
+};
+
+export const isColumnSortable = <TMeta = unknown>(
+  column: TreeViewColumn<TMeta>
+) => column.sortable ?? !!column.accessor;
+
+// Widths, visibility and the sort of a treegrid's extra columns. Widths and
+// visibility start from the column definitions and then follow the user.
+export function useTreeColumns<TMeta = unknown>(
+  columns: TreeViewColumn<TMeta>[] = []
+) {
+  const [widths, setWidths] = useState<Map<string, number>>(new Map());
+  const [visibility, setVisibility] = useState<Map<string, boolean>>(new Map());
+  const [sort, setSort] = useState<TreeColumnSort | null>(null);
+  const resizeRef = useRef<{ startX: number; startWidth: number } | null>(null);
+
+  const isColumnVisible = useCallback(
+    (column: TreeViewColumn<TMeta>) =>
+      visibility.get(column.id) ?? !column.hidden,
+    [visibility]
+  );
+
+  const visibleColumns = useMemo(
+    () => columns.filter(isColumnVisible),
+    [columns, isColumnVisible]
+  );
+
+  const getColumnWidth = useCallback(
+    (column: TreeViewColumn<TMeta>) =>
+      widths.get(column.id) ?? column.width ?? DEFAULT_COLUMN_WIDTH,
+    [widths]
+  );
+
+  const resizeColumn = useCallback(
+    (column: TreeViewColumn<TMeta>, width: number) =>
+      setWidths((prev) =>
+        new Map(prev).set(
+          column.id,
+          Math.max(
+            column.minWidth ?? DEFAULT_MIN_COLUMN_WIDTH,
+            Math.round(width)
+          )
+        )
+      ),
+    []
+  );
+
+  // Header clicks go ascending, descending, then back to the data's order
+  const toggleSort = useCallback((columnId: string) => {
+    setSort((prev) => {
+      if (prev?.columnId !== columnId) return { columnId, direction: "asc" };
+      return prev.direction === "asc" ? { columnId, direction: "desc" } : null;
+    });
+  }, []);
+
+  const setColumnVisible = useCallback(
+    (column: TreeViewColumn<TMeta>, visible: boolean) => {
+      setVisibility((prev) => new Map(prev).set(column.id, visible));
+      // A hidden column can't show what the rows are sorted by
+      if (!visible) {
+        setSort((prev) => (prev?.columnId === column.id ? null : prev));
+      }
+    },
+    []
+  );
+
+  // Props for the handle on a header's right edge. The pointer is captured
+  // so the drag keeps going outside the handle and doesn't end in a click on
+  // the header.
+  const getResizeHandleProps = useCallback(
+    (column: TreeViewColumn<TMeta>): React.HTMLAttributes<HTMLDivElement> => ({
+      role: "separator",
+      "aria-orientation": "vertical",
+      "aria-label": `Resize ${column.header}`,
+      "aria-valuenow": getColumnWidth(column),
+      "aria-valuemin": column.minWidth ?? DEFAULT_MIN_COLUMN_WIDTH,
+      tabIndex: 0,
+      onPointerDown: (e) => {
+        if (e.button !== 0) return;
+        e.preventDefault();
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        resizeRef.current = {
+          startX: e.clientX,
+          startWidth: getColumnWidth(column),
+        };
+      },
+      onPointerMove: (e) => {
+        const resize = resizeRef.current;
+        if (!resize) return;
+        resizeColumn(column, resize.startWidth + e.clientX - resize.startX);
+      },
+      onPointerUp: () => {
+        resizeRef.current = null;
+      },
+      onPointerCancel: () => {
+        resizeRef.current = null;
+      },
+      onClick: (e) => e.stopPropagation(),
+      onKeyDown: (e) => {
+        if (e.key !== "ArrowLeft" && e.key !== "ArrowRight") return;
+        e.preventDefault();
+        e.stopPropagation();
+        const step =
+          e.key === "ArrowLeft" ? -KEYBOARD_RESIZE_STEP : KEYBOARD_RESIZE_STEP;
+        resizeColumn(column, getColumnWidth(column) + step);
+      },
+    }),
+    [getColumnWidth, resizeColumn]
+  );
+
+  // Orders siblings by the sorted column, empty values always go last.
+  // Null when the rows keep the order of the data.
+  const compareItems = useMemo(() => {
+    const column =
+      sort && visibleColumns.find(({ id }) => id === sort.columnId);
+    const accessor = column?.accessor;
+    if (!sort || !accessor) return null;
+    const direction = sort.direction === "asc" ? 1 : -1;
+    return (a: TreeViewItem<TMeta>, b: TreeViewItem<TMeta>) => {
+      const valueA = accessor(a);
+      const valueB = accessor(b);
+      if (isEmptyValue(valueA) || isEmptyValue(valueB)) {
+        return Number(isEmptyValue(valueA)) - Number(isEmptyValue(valueB));
+      }
+      return direction * compareCellValues(valueA, valueB);
+    };
+  }, [sort, visibleColumns]);
+
+  return {
+    visibleColumns,
+    sort,
+    toggleSort,
+    isColumnVisible,
+    setColumnVisible,
+    getColumnWidth,
+    getResizeHandleProps,
+    compareItems,
+  };
+}
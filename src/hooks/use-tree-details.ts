@@ -0,0 +1,76 @@
+import type { TreeViewItem } from "@/components/tree-view";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export interface TreeItemDetailsState<TDetails = unknown> {
+  loading: boolean;
+  details?: TDetails;
+  error?: string;
+}
+
+type LoadDetails<TMeta, TDetails> = (
+  item: TreeViewItem<TMeta>,
+  options: { signal: AbortSignal }
+) => Promise<TDetails>;
+
+// Loads info card details the first time a node's card opens and keeps them
+// for the lifetime of the tree. Failed loads are retried on the next open.
+export function useTreeDetails<TMeta = unknown, TDetails = unknown>(
+  loadDetails?: LoadDetails<TMeta, TDetails>
+) {
+  const [cache, setCache] = useState<
+    Map<string, TreeItemDetailsState<TDetails>>
+  >(new Map());
+  const cacheRef = useRef(cache);
+  const loadDetailsRef = useRef(loadDetails);
+  const requestsRef = useRef<Map<string, AbortController>>(new Map());
+  useEffect(() => {
+    cacheRef.current = cache;
+    loadDetailsRef.current = loadDetails;
+  });
+
+  const setEntry = useCallback(
+    (id: string, entry: TreeItemDetailsState<TDetails>) => {
+      setCache((prev) => new Map(prev).set(id, entry));
+    },
+    []
+  );
+
+  const requestDetails = useCallback(
+    (item: TreeViewItem<TMeta>) => {
+      const load = loadDetailsRef.current;
+      const cached = cacheRef.current.get(item.id);
+      if (!load || requestsRef.current.has(item.id)) return;
+      if (cached && !cached.error) return;
+
+      const controller = new AbortController();
+      requestsRef.current.set(item.id, controller);
+      setEntry(item.id, { loading: true });
+      load(item, { signal: controller.signal })
+        .then(
+          (details) => setEntry(item.id, { loading: false, details }),
+          (error) => {
+            if (controller.signal.aborted) return;
+            setEntry(item.id, {
+              loading: false,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+        )
+        .finally(() => requestsRef.current.delete(item.id));
+    },
+    [setEntry]
+  );
+
+  // Cancel whatever is still loading when the tree unmounts
+  useEffect(() => {
+    const requests = requestsRef.current;
+    return () => requests.forEach((controller) => controller.abort());
+  }, []);
+
+  const getDetailsState = useCallback(
+    (item: TreeViewItem<TMeta>) => cache.get(item.id),
+    [cache]
+  );
+
+  return { getDetailsState, requestDetails };
+}
@@ -0,0 +1,320 @@
+import type {
+  TreeViewDropPosition,
+  TreeViewItem,
+  TreeViewMoveEvent,
+} from "@/components/tree-view";
+import {
+  describeItems,
+  getAncestorIds,
+  getDropLocation,
+  getTopLevelItems,
+} from "@/lib/tree-utils";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// How long a dragged node has to hover a collapsed folder before it opens
+const AUTO_EXPAND_DELAY = 600;
+// Share of a folder row at its top and bottom edge that drops before/after
+// the folder, the rest of the row drops inside it
+const FOLDER_EDGE_RATIO = 0.25;
+
+export interface TreeDropTarget {
+  id: string;
+  position: TreeViewDropPosition;
+}
+
+interface UseTreeDragDropOptions {
+  data: TreeViewItem[];
+  itemMap: Map<string, TreeViewItem>;
+  expandedIds: Set<string>;
+  onToggleExpand: (id: string, isOpen: boolean, item: TreeViewItem) => void;
+  onMove?: (move: TreeViewMoveEvent) => void;
+  canDrop?: (
+    dragged: TreeViewItem,
+    target: TreeViewItem,
+    position: TreeViewDropPosition
+  ) => boolean;
+  getSelectionFor: (item: TreeViewItem) => TreeViewItem[]; // Nodes moved along with a dragged or cut row
+  onAnnounce: (message: string) => void;
+  reorderable?: boolean; // False while the rows are sorted, moves may then only change parents
+}
+
+const describePosition = (position: TreeViewDropPosition) =>
+  position === "inside" ? "into" : position;
+
+// Pick the drop position from where the pointer is within the row. Leaves
+// only have an upper and a lower half. Rows in an order of their own only
+// take drops inside folders, a line between them would be misleading.
+const getPointerPosition = (
+  target: TreeViewItem,
+  ratio: number,
+  reorderable: boolean
+): TreeViewDropPosition => {
+  if (!reorderable) return "inside";
+  if (!target.children) return ratio < 0.5 ? "before" : "after";
+  if (ratio < FOLDER_EDGE_RATIO) return "before";
+  if (ratio > 1 - FOLDER_EDGE_RATIO) return "after";
+  return "inside";
+};
+
+// Moving nodes around the tree, by dragging rows or with the keyboard
+// (Alt+Up/Down within the siblings, Ctrl/Cmd+X then Ctrl/Cmd+V elsewhere).
+// The tree data is not touched here, every move is reported through onMove.
+export function useTreeDragDrop({
+  data,
+  itemMap,
+  expandedIds,
+  onToggleExpand,
+  onMove,
+  canDrop,
+  getSelectionFor,
+  onAnnounce,
+  reorderable = true,
+}: UseTreeDragDropOptions) {
+  const [dropTarget, setDropTarget] = useState<TreeDropTarget | null>(null);
+  const [cutIds, setCutIds] = useState<Set<string>>(() => new Set());
+  const draggedIdsRef = useRef<string[] | null>(null);
+  const expandTimerRef = useRef<{ id: string; timeout: number } | null>(null);
+
+  const clearExpandTimer = useCallback(() => {
+    if (expandTimerRef.current) {
+      window.clearTimeout(expandTimerRef.current.timeout);
+      expandTimerRef.current = null;
+    }
+  }, []);
+
+  useEffect(() => clearExpandTimer, [clearExpandTimer]);
+
+  const isValidDrop = useCallback(
+    (
+      items: TreeViewItem[],
+      target: TreeViewItem,
+      position: TreeViewDropPosition
+    ) => {
+      // Children of unloaded folders would be replaced once they load
+      if (
+        position === "inside" &&
+        (!target.children || !target.loaded || target.disabled)
+      ) {
+        return false;
+      }
+      const targetAncestorIds = getAncestorIds(data, target.id);
+      // Next to a sibling, unless all that would change is their order
+      if (
+        !reorderable &&
+        position !== "inside" &&
+        items.every(
+          (item) =>
+            (getAncestorIds(data, item.id)[0] ?? null) ===
+            (targetAncestorIds[0] ?? null)
+        )
+      ) {
+        return false;
+      }
+      return items.every(
+        (item) =>
+          !item.disabled &&
+          item.id !== target.id &&
+          !targetAncestorIds.includes(item.id) &&
+          (canDrop?.(item, target, position) ?? true)
+      );
+    },
+    [data, canDrop, reorderable]
+  );
+
+  // Report a move if it is allowed, returns whether it was
+  const moveItems = useCallback(
+    (
+      items: TreeViewItem[],
+      target: TreeViewItem,
+      position: TreeViewDropPosition
+    ): boolean => {
+      if (!onMove || items.length === 0) return false;
+      const location = isValidDrop(items, target, position)
+        ? getDropLocation(
+            data,
+            target.id,
+            position,
+            new Set(items.map((item) => item.id))
+          )
+        : null;
+      if (!location) {
+        onAnnounce(
+          `Cannot move ${describeItems(items)} ${describePosition(position)} ${target.name}`
+        );
+        return false;
+      }
+      onMove({ items, target, position, ...location });
+      onAnnounce(
+        `Moved ${describeItems(items)} ${describePosition(position)} ${target.name}`
+      );
+      return true;
+    },
+    [data, onMove, isValidDrop, onAnnounce]
+  );
+
+  const resetDrag = useCallback(() => {
+    draggedIdsRef.current = null;
+    setDropTarget(null);
+    clearExpandTimer();
+  }, [clearExpandTimer]);
+
+  // Drag handlers for a row, nothing is draggable without onMove. Disabled
+  // rows can't be dragged but still take drops before and after them.
+  const getDragProps = useCallback(
+    (item: TreeViewItem): React.HTMLAttributes<HTMLDivElement> => {
+      if (!onMove) return {};
+      // Rows may render copies of the nodes (e.g. while searching)
+      const target = itemMap.get(item.id) ?? item;
+      return {
+        draggable: !target.disabled,
+        onDragStart: (e) => {
+          e.stopPropagation();
+          const items = getSelectionFor(target);
+          draggedIdsRef.current = items.map((node) => node.id);
+          e.dataTransfer.effectAllowed = "move";
+          e.dataTransfer.setData(
+            "text/plain",
+            items.map((node) => node.name).join("\n")
+          );
+        },
+        onDragOver: (e) => {
+          const draggedIds = draggedIdsRef.current;
+          if (!draggedIds) return;
+          const rect = e.currentTarget.getBoundingClientRect();
+          const position = getPointerPosition(
+            target,
+            (e.clientY - rect.top) / rect.height,
+            reorderable
+          );
+
+          // Open a collapsed folder once the pointer rests on it, this also
+          // starts loading folders that can't be dropped into yet
+          if (position !== "inside" || expandedIds.has(target.id)) {
+            clearExpandTimer();
+          } else if (expandTimerRef.current?.id !== target.id) {
+            clearExpandTimer();
+            expandTimerRef.current = {
+              id: target.id,
+              timeout: window.setTimeout(() => {
+                expandTimerRef.current = null;
+                onToggleExpand(target.id, true, target);
+              }, AUTO_EXPAND_DELAY),
+            };
+          }
+
+          const items = getTopLevelItems(data, new Set(draggedIds));
+          if (!isValidDrop(items, target, position)) {
+            setDropTarget(null);
+            return;
+          }
+          e.preventDefault();
+          e.dataTransfer.dropEffect = "move";
+          setDropTarget((prev) =>
+            prev?.id === target.id && prev.position === position
+              ? prev
+              : { id: target.id, position }
+          );
+        },
+        onDragLeave: (e) => {
+          if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+          setDropTarget((prev) => (prev?.id === target.id ? null : prev));
+        },
+        onDrop: (e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          const draggedIds = draggedIdsRef.current;
+          if (draggedIds && dropTarget?.id === target.id) {
+            moveItems(
+              getTopLevelItems(data, new Set(draggedIds)),
+              target,
+              dropTarget.position
+            );
+          }
+          resetDrag();
+        },
+        onDragEnd: resetDrag,
+      };
+    },
+    [
+      onMove,
+      data,
+      itemMap,
+      expandedIds,
+      onToggleExpand,
+      reorderable,
+      dropTarget,
+      getSelectionFor,
+      isValidDrop,
+      moveItems,
+      clearExpandTimer,
+      resetDrag,
+    ]
+  );
+
+  // Keyboard moves for the focused row, returns whether the key was handled
+  const handleMoveKeyDown = useCallback(
+    (
+      e: React.KeyboardEvent,
+      item: TreeViewItem,
+      parentId: string | null
+    ): boolean => {
+      if (!onMove) return false;
+      const isModifier = e.ctrlKey || e.metaKey;
+      const key = e.key.toLowerCase();
+
+      if (e.altKey && (e.key === "ArrowUp" || e.key === "ArrowDown")) {
+        if (!reorderable) {
+          onAnnounce("Rows are sorted, siblings can't be reordered");
+          return true;
+        }
+        // Swap places with the previous or next sibling
+        const siblings =
+          parentId === null ? data : (itemMap.get(parentId)?.children ?? []);
+        const index = siblings.findIndex((sibling) => sibling.id === item.id);
+        const isUp = e.key === "ArrowUp";
+        const sibling = siblings[index + (isUp ? -1 : 1)];
+        if (index !== -1 && sibling) {
+          moveItems([item], sibling, isUp ? "before" : "after");
+        }
+        return true;
+      }
+      if (isModifier && key === "x") {
+        const items = getSelectionFor(item);
+        setCutIds(new Set(items.map((node) => node.id)));
+        onAnnounce(`Cut ${describeItems(items)}, paste to move`);
+        return true;
+      }
+      if (isModifier && key === "v" && cutIds.size > 0) {
+        // Paste into loaded folders, next to anything else
+        const position = item.children && item.loaded ? "inside" : "after";
+        if (moveItems(getTopLevelItems(data, cutIds), item, position)) {
+          setCutIds(new Set());
+          if (position === "inside" && !expandedIds.has(item.id)) {
+            onToggleExpand(item.id, true, item);
+          }
+        }
+        return true;
+      }
+      if (e.key === "Escape" && cutIds.size > 0) {
+        setCutIds(new Set());
+        onAnnounce("Move cancelled");
+        return true;
+      }
+      return false;
+    },
+    [
+      onMove,
+      data,
+      itemMap,
+      reorderable,
+      cutIds,
+      expandedIds,
+      onToggleExpand,
+      getSelectionFor,
+      moveItems,
+      onAnnounce,
+    ]
+  );
+
+  return { dropTarget, cutIds, getDragProps, handleMoveKeyDown };
+}
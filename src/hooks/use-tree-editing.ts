@@ -0,0 +1,184 @@
+import type { TreeViewItem } from "@/components/tree-view";
+import { describeItems } from "@/lib/tree-utils";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// The name being edited in place, either of an existing row or of a new
+// node under `parentId`. `pending` is set while the callback is running.
+export type TreeEditingState =
+  | { mode: "rename"; id: string; error?: string; pending?: boolean }
+  | {
+      mode: "create";
+      parentId: string;
+      isFolder: boolean;
+      error?: string;
+      pending?: boolean;
+    };
+
+export interface TreePendingDelete {
+  items: TreeViewItem[];
+  error?: string;
+  pending?: boolean;
+}
+
+interface UseTreeEditingOptions {
+  itemMap: Map<string, TreeViewItem>;
+  expandedIds: Set<string>;
+  onToggleExpand: (id: string, isOpen: boolean, item: TreeViewItem) => void;
+  onRename?: (item: TreeViewItem, name: string) => Promise<void> | void;
+  onCreate?: (parent: TreeViewItem, item: TreeViewItem) => Promise<void> | void;
+  onDelete?: (items: TreeViewItem[]) => Promise<void> | void;
+  onAnnounce: (message: string) => void;
+  treeRef: React.RefObject<HTMLElement | null>;
+}
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+// Inline rename, create and delete. The callbacks persist the change and
+// update the data; a rejected promise keeps the editor open with its message.
+export function useTreeEditing({
+  itemMap,
+  expandedIds,
+  onToggleExpand,
+  onRename,
+  onCreate,
+  onDelete,
+  onAnnounce,
+  treeRef,
+}: UseTreeEditingOptions) {
+  const [editing, setEditingState] = useState<TreeEditingState | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<TreePendingDelete | null>(
+    null
+  );
+  // Mirrors `editing` synchronously, the input blurs right after Enter/Escape
+  const editingRef = useRef<TreeEditingState | null>(null);
+  const previousEditingRef = useRef<TreeEditingState | null>(null);
+
+  const setEditing = useCallback((next: TreeEditingState | null) => {
+    editingRef.current = next;
+    setEditingState(next);
+  }, []);
+
+  // The editor unmounts once done, put focus back on its row unless the
+  // user already moved it somewhere else
+  useEffect(() => {
+    const previous = previousEditingRef.current;
+    previousEditingRef.current = editing;
+    if (!previous || editing) return;
+    if (document.activeElement && document.activeElement !== document.body) {
+      return;
+    }
+    const id = previous.mode === "rename" ? previous.id : previous.parentId;
+    treeRef.current
+      ?.querySelector<HTMLElement>(
+        `[data-tree-item][data-id="${CSS.escape(id)}"]`
+      )
+      ?.focus();
+  }, [editing, treeRef]);
+
+  const startRename = useCallback(
+    (item: TreeViewItem) => {
+      if (!onRename || item.disabled) return;
+      setEditing({ mode: "rename", id: item.id });
+    },
+    [onRename, setEditing]
+  );
+
+  const startCreate = useCallback(
+    (parent: TreeViewItem, isFolder: boolean) => {
+      if (!onCreate || !parent.children || parent.disabled) return;
+      if (!expandedIds.has(parent.id)) {
+        onToggleExpand(parent.id, true, parent);
+      }
+      setEditing({ mode: "create", parentId: parent.id, isFolder });
+    },
+    [onCreate, expandedIds, onToggleExpand, setEditing]
+  );
+
+  const cancelEdit = useCallback(() => setEditing(null), [setEditing]);
+
+  // Empty or unchanged names just close the editor
+  const submitEdit = useCallback(
+    async (value: string) => {
+      const current = editingRef.current;
+      if (!current || current.pending) return;
+      const name = value.trim();
+      const item = itemMap.get(
+        current.mode === "rename" ? current.id : current.parentId
+      );
+      if (!item || !name || (current.mode === "rename" && name === item.name)) {
+        setEditing(null);
+        return;
+      }
+
+      const pendingState = { ...current, pending: true, error: undefined };
+      setEditing(pendingState);
+      try {
+        if (current.mode === "rename") {
+          await onRename?.(item, name);
+          onAnnounce(`Renamed ${item.name} to ${name}`);
+        } else {
+          const newItem: TreeViewItem = current.isFolder
+            ? {
+                id: crypto.randomUUID(),
+                name,
+                type: "folder",
+                children: [],
+                loaded: true,
+              }
+            : { id: crypto.randomUUID(), name, type: "file" };
+          await onCreate?.(item, newItem);
+          onAnnounce(`Created ${name} in ${item.name}`);
+        }
+        if (editingRef.current === pendingState) {
+          setEditing(null);
+        }
+      } catch (error) {
+        if (editingRef.current === pendingState) {
+          setEditing({ ...current, error: getErrorMessage(error) });
+        }
+      }
+    },
+    [itemMap, onRename, onCreate, onAnnounce, setEditing]
+  );
+
+  // Disabled nodes are left out of the deletion
+  const requestDelete = useCallback(
+    (nodes: TreeViewItem[]) => {
+      const items = nodes.filter((item) => !item.disabled);
+      if (!onDelete || items.length === 0) return;
+      setPendingDelete({ items });
+    },
+    [onDelete]
+  );
+
+  const cancelDelete = useCallback(() => setPendingDelete(null), []);
+
+  // Resolves to whether the nodes were deleted
+  const confirmDelete = useCallback(async (): Promise<boolean> => {
+    if (!pendingDelete || pendingDelete.pending) return false;
+    const { items } = pendingDelete;
+    setPendingDelete({ items, pending: true });
+    try {
+      await onDelete?.(items);
+      setPendingDelete(null);
+      onAnnounce(`Deleted ${describeItems(items)}`);
+      return true;
+    } catch (error) {
+      setPendingDelete({ items, error: getErrorMessage(error) });
+      return false;
+    }
+  }, [pendingDelete, onDelete, onAnnounce]);
+
+  return {
+    editing,
+    pendingDelete,
+    startRename,
+    startCreate,
+    cancelEdit,
+    submitEdit,
+    requestDelete,
+    cancelDelete,
+    confirmDelete,
+  };
+}
@@ -0,0 +1,89 @@
+import type { TreeViewItem } from "@/components/tree-view";
+import type { TreeHistoryStep } from "@/lib/tree-history";
+import { deepCloneData } from "@/lib/tree-utils";
+import { useCallback, useRef, useState } from "react";
+
+// Oldest entries are dropped beyond this
+const HISTORY_LIMIT = 100;
+
+interface UseTreeHistoryOptions {
+  setData: React.Dispatch<React.SetStateAction<TreeViewItem[]>>;
+  onApply: (items: TreeViewItem[]) => void; // Runs on the data after an undo or redo, e.g. to derive folder states
+}
+
+// Bounded undo/redo stacks. Steps recorded in the same tick (e.g. checks
+// applied to several items one by one) form one entry and are undone together.
+export function useTreeHistory({ setData, onApply }: UseTreeHistoryOptions) {
+  const undoStackRef = useRef<TreeHistoryStep[][]>([]);
+  const redoStackRef = useRef<TreeHistoryStep[][]>([]);
+  const openEntryRef = useRef<TreeHistoryStep[] | null>(null);
+  const [sizes, setSizes] = useState({ undo: 0, redo: 0 });
+
+  const updateSizes = useCallback(
+    () =>
+      setSizes({
+        undo: undoStackRef.current.length,
+        redo: redoStackRef.current.length,
+      }),
+    []
+  );
+
+  const record = useCallback(
+    (step: TreeHistoryStep) => {
+      if (!openEntryRef.current) {
+        const entry: TreeHistoryStep[] = [];
+        openEntryRef.current = entry;
+        queueMicrotask(() => {
+          if (openEntryRef.current === entry) openEntryRef.current = null;
+        });
+        undoStackRef.current = [...undoStackRef.current, entry].slice(
+          -HISTORY_LIMIT
+        );
+        redoStackRef.current = [];
+        updateSizes();
+      }
+      openEntryRef.current.push(step);
+    },
+    [updateSizes]
+  );
+
+  // Move an entry from one stack to the other, applying it on the way
+  const replay = useCallback(
+    (
+      fromRef: React.RefObject<TreeHistoryStep[][]>,
+      toRef: React.RefObject<TreeHistoryStep[][]>,
+      direction: "undo" | "redo"
+    ) => {
+      const entry = fromRef.current.pop();
+      if (!entry) return;
+      openEntryRef.current = null;
+      toRef.current.push(entry);
+      updateSizes();
+      setData((prevData) => {
+        const newData = deepCloneData(prevData);
+        const steps = direction === "undo" ? [...entry].reverse() : entry;
+        steps.forEach((step) => step[direction](newData));
+        onApply(newData);
+        return newData;
+      });
+    },
+    [setData, onApply, updateSizes]
+  );
+
+  const undo = useCallback(
+    () => replay(undoStackRef, redoStackRef, "undo"),
+    [replay]
+  );
+  const redo = useCallback(
+    () => replay(redoStackRef, undoStackRef, "redo"),
+    [replay]
+  );
+
+  return {
+    record,
+    undo,
+    redo,
+    canUndo: sizes.undo > 0,
+    canRedo: sizes.redo > 0,
+  };
+}
@@ -0,0 +1,130 @@
+import type { TreeViewItem } from "@/components/tree-view";
+import {
+  type PersistedTreeState,
+  type TreeStateMigration,
+  decodeTreeState,
+  encodeTreeState,
+  restoreTreeState,
+} from "@/lib/tree-persistence";
+import type { TreeSelectionDescriptor } from "@/lib/tree-selection";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// Pause after the last change before the state is written
+const PERSIST_DEBOUNCE = 300;
+
+interface UseTreePersistenceOptions {
+  persistKey?: string;
+  persistVersion: number;
+  migrate?: TreeStateMigration;
+  persistInUrl?: boolean;
+  data: TreeViewItem[];
+  itemMap: Map<string, TreeViewItem>;
+  expandedIds: Set<string>;
+  onToggleExpand: (id: string, isOpen: boolean, item: TreeViewItem) => void;
+  exportSelection: () => TreeSelectionDescriptor;
+  importSelection: (descriptor: TreeSelectionDescriptor) => void;
+}
+
+// Shared links win over what this browser saved last
+const readSavedState = (persistKey: string): unknown => {
+  try {
+    const fromUrl = new URLSearchParams(window.location.search).get(persistKey);
+    if (fromUrl) return decodeTreeState(fromUrl);
+    const fromStorage = window.localStorage.getItem(persistKey);
+    return fromStorage ? JSON.parse(fromStorage) : null;
+  } catch {
+    return null; // Storage may be blocked, or the value mangled
+  }
+};
+
+const writeSavedState = (
+  persistKey: string,
+  state: PersistedTreeState,
+  persistInUrl: boolean
+) => {
+  try {
+    window.localStorage.setItem(persistKey, JSON.stringify(state));
+  } catch {
+    // Storage may be full or blocked, the URL copy still works
+  }
+  if (persistInUrl) {
+    const url = new URL(window.location.href);
+    url.searchParams.set(persistKey, encodeTreeState(state));
+    window.history.replaceState(window.history.state, "", url);
+  }
+};
+
+// Saves expansion, checks and scroll offset under `persistKey` and restores
+// them on mount. Expanded folders are reopened through onToggleExpand as
+// they appear, so lazy folders load again level by level.
+export function useTreePersistence({
+  persistKey,
+  persistVersion,
+  migrate,
+  persistInUrl = false,
+  data,
+  itemMap,
+  expandedIds,
+  onToggleExpand,
+  exportSelection,
+  importSelection,
+}: UseTreePersistenceOptions) {
+  const [restored] = useState(() =>
+    persistKey
+      ? restoreTreeState(readSavedState(persistKey), persistVersion, migrate)
+      : null
+  );
+  // Restored folders that haven't shown up in the data yet
+  const pendingExpandIdsRef = useRef<Set<string>>(
+    new Set(restored?.expandedIds)
+  );
+  const scrollTopRef = useRef(restored?.scrollTop ?? 0);
+  const saveTimerRef = useRef(0);
+
+  useEffect(() => {
+    if (restored) importSelection(restored.selection);
+  }, [restored, importSelection]);
+
+  useEffect(() => {
+    pendingExpandIdsRef.current.forEach((id) => {
+      const item = itemMap.get(id);
+      if (!item) return;
+      pendingExpandIdsRef.current.delete(id);
+      if (!expandedIds.has(id)) onToggleExpand(id, true, item);
+    });
+  }, [itemMap, expandedIds, onToggleExpand]);
+
+  const scheduleSave = useCallback(() => {
+    if (!persistKey) return;
+    window.clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = window.setTimeout(() => {
+      writeSavedState(
+        persistKey,
+        {
+          version: persistVersion,
+          // Folders still waiting to reopen stay saved as expanded
+          expandedIds: [...expandedIds, ...pendingExpandIdsRef.current],
+          selection: exportSelection(),
+          scrollTop: scrollTopRef.current,
+        },
+        persistInUrl
+      );
+    }, PERSIST_DEBOUNCE);
+  }, [persistKey, persistVersion, persistInUrl, expandedIds, exportSelection]);
+
+  useEffect(() => {
+    scheduleSave();
+  }, [data, scheduleSave]);
+
+  useEffect(() => () => window.clearTimeout(saveTimerRef.current), []);
+
+  const onScrollChange = useCallback(
+    (scrollTop: number) => {
+      scrollTopRef.current = scrollTop;
+      scheduleSave();
+    },
+    [scheduleSave]
+  );
+
+  return { initialScrollTop: restored?.scrollTop, onScrollChange };
+}
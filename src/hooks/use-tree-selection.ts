@@ -0,0 +1,411 @@
+import type { TreeViewItem } from "@/components/tree-view";
+import { cn } from "@/lib/utils";
+import { type FlatTreeRow, getTopLevelItems } from "@/lib/tree-utils";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+// Pixels the pointer has to travel before a mouse down becomes a marquee drag
+const DRAG_THRESHOLD = 10;
+// Distance from the scroll container edge at which the marquee auto-scrolls
+const AUTO_SCROLL_EDGE = 32;
+const AUTO_SCROLL_MAX_SPEED = 16;
+
+interface MarqueeState {
+  startClientX: number;
+  startClientY: number;
+  startContentY: number;
+  pointerY: number;
+  active: boolean;
+  baseIds: Set<string>; // Selection kept when extending with Shift/Ctrl
+}
+
+interface UseTreeSelectionOptions {
+  data: TreeViewItem[];
+  visibleRows: FlatTreeRow[];
+  rowIndexById: Map<string, number>;
+  selectedIds?: Set<string>; // Controlled selection
+  onSelectedIdsChange?: (selectedIds: Set<string>) => void;
+  onSelectionChange?: (selectedItems: TreeViewItem[]) => void;
+  treeRef: React.RefObject<HTMLElement | null>;
+  contentRef: React.RefObject<HTMLElement | null>; // Element the rows are laid out in
+  scrollRef: React.RefObject<HTMLElement | null>;
+  virtualize: boolean;
+  getIndexRange: (top: number, bottom: number) => [number, number];
+}
+
+const isSameSelection = (a: Set<string>, b: Set<string>) =>
+  a.size === b.size && [...a].every((id) => b.has(id));
+
+// Row selection, independent of the checked state. Supports click,
+// Ctrl/Cmd toggle, Shift ranges over the visible row order and marquee drag.
+export function useTreeSelection({
+  data,
+  visibleRows,
+  rowIndexById,
+  selectedIds: controlledSelectedIds,
+  onSelectedIdsChange,
+  onSelectionChange,
+  treeRef,
+  contentRef,
+  scrollRef,
+  virtualize,
+  getIndexRange,
+}: UseTreeSelectionOptions) {
+  const [internalSelectedIds, setInternalSelectedIds] = useState<Set<string>>(
+    () => new Set()
+  );
+  const [marqueeRect, setMarqueeRect] = useState<{
+    top: number;
+    height: number;
+  } | null>(null);
+  const selectedIds = controlledSelectedIds ?? internalSelectedIds;
+  const anchorIdRef = useRef<string | null>(null);
+  const marqueeRef = useRef<MarqueeState | null>(null);
+
+  // Selected items in tree order, filtering out parents if their children
+  // are selected as well
+  const getEffectiveSelectedItems = useCallback(
+    (ids: Set<string> = selectedIds): TreeViewItem[] => {
+      const items: TreeViewItem[] = [];
+      const processItem = (item: TreeViewItem) => {
+        if (
+          ids.has(item.id) &&
+          !item.children?.some((child) => ids.has(child.id))
+        ) {
+          items.push(item);
+        }
+        item.children?.forEach(processItem);
+      };
+      if (ids.size > 0) {
+        data.forEach(processItem);
+      }
+      return items;
+    },
+    [data, selectedIds]
+  );
+
+  // Nodes an operation on `item` (moving, deleting) applies to: the whole
+  // selection when the item is part of it, else just the item
+  const getSelectionFor = useCallback(
+    (item: TreeViewItem): TreeViewItem[] =>
+      getTopLevelItems(
+        data,
+        selectedIds.has(item.id) ? selectedIds : new Set([item.id])
+      ),
+    [data, selectedIds]
+  );
+
+  const disabledIds = useMemo(() => {
+    const ids = new Set<string>();
+    visibleRows.forEach((row) => {
+      if (row.kind === "item" && row.item.disabled) ids.add(row.item.id);
+    });
+    return ids;
+  }, [visibleRows]);
+
+  // Disabled rows are left out, ranges and marquees just skip over them
+  const updateSelection = useCallback(
+    (nextIds: Set<string>) => {
+      const ids = new Set([...nextIds].filter((id) => !disabledIds.has(id)));
+      if (isSameSelection(ids, selectedIds)) return;
+      if (controlledSelectedIds === undefined) {
+        setInternalSelectedIds(ids);
+      }
+      onSelectedIdsChange?.(ids);
+      onSelectionChange?.(getEffectiveSelectedItems(ids));
+    },
+    [
+      disabledIds,
+      selectedIds,
+      controlledSelectedIds,
+      onSelectedIdsChange,
+      onSelectionChange,
+      getEffectiveSelectedItems,
+    ]
+  );
+
+  const clearSelection = useCallback(() => {
+    anchorIdRef.current = null;
+    updateSelection(new Set());
+  }, [updateSelection]);
+
+  // Ids of the item rows between two visible rows, inclusive
+  const getIdsBetween = useCallback(
+    (fromId: string, toId: string): string[] => {
+      const fromIndex = rowIndexById.get(fromId);
+      const toIndex = rowIndexById.get(toId);
+      if (fromIndex === undefined || toIndex === undefined) return [toId];
+      const ids: string[] = [];
+      const [start, end] = [
+        Math.min(fromIndex, toIndex),
+        Math.max(fromIndex, toIndex),
+      ];
+      for (let index = start; index <= end; index++) {
+        if (visibleRows[index].kind === "item") {
+          ids.push(visibleRows[index].item.id);
+        }
+      }
+      return ids;
+    },
+    [rowIndexById, visibleRows]
+  );
+
+  // Select the range from the anchor to `id`, optionally keeping the rest
+  const selectRange = useCallback(
+    (id: string, additive = false) => {
+      const anchorId = anchorIdRef.current ?? id;
+      anchorIdRef.current = anchorId;
+      const ids = new Set(additive ? selectedIds : []);
+      getIdsBetween(anchorId, id).forEach((rangeId) => ids.add(rangeId));
+      updateSelection(ids);
+    },
+    [selectedIds, getIdsBetween, updateSelection]
+  );
+
+  const toggleSelected = useCallback(
+    (id: string) => {
+      const ids = new Set(selectedIds);
+      if (ids.has(id)) {
+        ids.delete(id);
+      } else {
+        ids.add(id);
+      }
+      anchorIdRef.current = id;
+      updateSelection(ids);
+    },
+    [selectedIds, updateSelection]
+  );
+
+  const selectAll = useCallback(() => {
+    const ids = new Set<string>();
+    visibleRows.forEach((row) => {
+      if (row.kind === "item") ids.add(row.item.id);
+    });
+    updateSelection(ids);
+  }, [visibleRows, updateSelection]);
+
+  // Row click: Shift selects a range, Ctrl/Cmd toggles, plain click selects one
+  const handleRowSelect = useCallback(
+    (item: TreeViewItem, e: React.MouseEvent) => {
+      const isToggle = e.ctrlKey || e.metaKey;
+      if (e.shiftKey && anchorIdRef.current !== null) {
+        selectRange(item.id, isToggle);
+      } else if (isToggle) {
+        toggleSelected(item.id);
+      } else {
+        anchorIdRef.current = item.id;
+        updateSelection(new Set([item.id]));
+      }
+    },
+    [selectRange, toggleSelected, updateSelection]
+  );
+
+  // Rounded grouped styling: consecutive selected rows form one block
+  const selectionClasses = useMemo(() => {
+    const classes = new Map<string, string>();
+    const isRowSelected = (row: FlatTreeRow | undefined) =>
+      row?.kind === "item" && selectedIds.has(row.item.id);
+    visibleRows.forEach((row, index) => {
+      if (!isRowSelected(row)) return;
+      classes.set(
+        row.item.id,
+        cn(
+          "bg-orange-100",
+          isRowSelected(visibleRows[index - 1]) && "rounded-t-none",
+          isRowSelected(visibleRows[index + 1]) && "rounded-b-none"
+        )
+      );
+    });
+    return classes;
+  }, [visibleRows, selectedIds]);
+
+  // Position relative to the top of the row content, stable while scrolling
+  const getContentY = useCallback(
+    (clientY: number) =>
+      clientY - (contentRef.current?.getBoundingClientRect().top ?? 0),
+    [contentRef]
+  );
+
+  // Ids of the item rows overlapping a vertical span of the content. The
+  // windowed renderer does not mount every row, so it uses row offsets.
+  const getIdsInSpan = useCallback(
+    (top: number, bottom: number): string[] => {
+      const ids: string[] = [];
+      if (virtualize) {
+        if (visibleRows.length === 0) return ids;
+        const [first, last] = getIndexRange(top, bottom);
+        for (let index = first; index <= last; index++) {
+          if (visibleRows[index].kind === "item") {
+            ids.push(visibleRows[index].item.id);
+          }
+        }
+        return ids;
+      }
+      const content = contentRef.current;
+      if (!content) return ids;
+      const contentTop = content.getBoundingClientRect().top;
+      content
+        .querySelectorAll<HTMLElement>("[data-tree-item]")
+        .forEach((element) => {
+          const rect = element.getBoundingClientRect();
+          const id = element.dataset.id;
+          if (
+            id &&
+            rowIndexById.has(id) &&
+            rect.bottom - contentTop >= top &&
+            rect.top - contentTop <= bottom
+          ) {
+            ids.push(id);
+          }
+        });
+      return ids;
+    },
+    [virtualize, visibleRows, getIndexRange, contentRef, rowIndexById]
+  );
+
+  const updateMarquee = useCallback(() => {
+    const marquee = marqueeRef.current;
+    if (!marquee?.active) return;
+    const currentY = getContentY(marquee.pointerY);
+    const top = Math.min(marquee.startContentY, currentY);
+    const bottom = Math.max(marquee.startContentY, currentY);
+    setMarqueeRect({ top, height: bottom - top });
+    const ids = new Set(marquee.baseIds);
+    getIdsInSpan(top, bottom).forEach((id) => ids.add(id));
+    updateSelection(ids);
+  }, [getContentY, getIdsInSpan, updateSelection]);
+
+  // The document listeners outlive renders, so they read the latest values
+  const latestRef = useRef({ updateMarquee, clearSelection, virtualize });
+  useEffect(() => {
+    latestRef.current = { updateMarquee, clearSelection, virtualize };
+  });
+
+  const handleMarqueeMouseDown = useCallback(
+    (e: React.MouseEvent) => {
+      // Only track left clicks that don't start on a control inside a row
+      if (
+        e.button !== 0 ||
+        (e.target as HTMLElement).closest("button, input, [draggable=true]")
+      ) {
+        return;
+      }
+
+      marqueeRef.current = {
+        startClientX: e.clientX,
+        startClientY: e.clientY,
+        startContentY: getContentY(e.clientY),
+        pointerY: e.clientY,
+        active: false,
+        baseIds: new Set(
+          e.shiftKey || e.ctrlKey || e.metaKey ? selectedIds : []
+        ),
+      };
+      let frame = 0;
+
+      // Scroll while the pointer is near the top or bottom edge
+      const autoScroll = () => {
+        const marquee = marqueeRef.current;
+        if (!marquee?.active) return;
+        const scrollElement = latestRef.current.virtualize
+          ? scrollRef.current
+          : document.scrollingElement;
+        if (scrollElement) {
+          const { top, bottom } = latestRef.current.virtualize
+            ? scrollElement.getBoundingClientRect()
+            : { top: 0, bottom: window.innerHeight };
+          let delta = 0;
+          if (marquee.pointerY < top + AUTO_SCROLL_EDGE) {
+            delta = -Math.min(
+              AUTO_SCROLL_MAX_SPEED,
+              top + AUTO_SCROLL_EDGE - marquee.pointerY
+            );
+          } else if (marquee.pointerY > bottom - AUTO_SCROLL_EDGE) {
+            delta = Math.min(
+              AUTO_SCROLL_MAX_SPEED,
+              marquee.pointerY - (bottom - AUTO_SCROLL_EDGE)
+            );
+          }
+          if (delta !== 0) {
+            scrollElement.scrollTop += delta;
+            latestRef.current.updateMarquee();
+          }
+        }
+        frame = requestAnimationFrame(autoScroll);
+      };
+
+      const handleMouseMove = (event: MouseEvent) => {
+        const marquee = marqueeRef.current;
+        if (!marquee) return;
+        marquee.pointerY = event.clientY;
+        if (!marquee.active) {
+          const distance = Math.hypot(
+            event.clientX - marquee.startClientX,
+            event.clientY - marquee.startClientY
+          );
+          if (distance <= DRAG_THRESHOLD) return;
+          marquee.active = true;
+          frame = requestAnimationFrame(autoScroll);
+        }
+        latestRef.current.updateMarquee();
+      };
+
+      const handleMouseUp = () => {
+        const wasActive = marqueeRef.current?.active;
+        marqueeRef.current = null;
+        cancelAnimationFrame(frame);
+        setMarqueeRect(null);
+        document.removeEventListener("mousemove", handleMouseMove);
+        document.removeEventListener("mouseup", handleMouseUp);
+        if (wasActive) {
+          // Swallow the click that follows the drag so it doesn't reselect
+          const suppressClick = (event: MouseEvent) => event.stopPropagation();
+          document.addEventListener("click", suppressClick, {
+            capture: true,
+            once: true,
+          });
+          setTimeout(() =>
+            document.removeEventListener("click", suppressClick, true)
+          );
+        }
+      };
+
+      document.addEventListener("mousemove", handleMouseMove);
+      document.addEventListener("mouseup", handleMouseUp);
+    },
+    [getContentY, selectedIds, scrollRef]
+  );
+
+  // Clicking outside the tree clears the selection
+  useEffect(() => {
+    const handleClickAway = (e: MouseEvent) => {
+      const target = e.target as Element;
+      const clickedInside =
+        treeRef.current?.contains(target) ||
+        // Ignore clicks on context menus
+        target.closest('[role="menu"]') ||
+        // and on controls acting on the selection, e.g. TreeTransfer's buttons
+        target.closest("[data-keeps-tree-selection]") ||
+        target.closest("[data-radix-popper-content-wrapper]");
+      if (!clickedInside) {
+        latestRef.current.clearSelection();
+      }
+    };
+    document.addEventListener("mousedown", handleClickAway);
+    return () => document.removeEventListener("mousedown", handleClickAway);
+  }, [treeRef]);
+
+  return {
+    selectedIds,
+    selectionClasses,
+    marqueeRect,
+    getEffectiveSelectedItems,
+    getSelectionFor,
+    handleRowSelect,
+    handleMarqueeMouseDown,
+    selectRange,
+    toggleSelected,
+    selectAll,
+    clearSelection,
+    updateSelection,
+  };
+}
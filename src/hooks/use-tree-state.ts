@@ -0,0 +1,602 @@
+import {
+  type TreeViewCheckChange,
+  type TreeViewCheckStrategy,
+  type TreeViewItem,
+  type TreeViewMoveEvent,
+  getCheckState,
+} from "@/components/tree-view";
+import {
+  buildItemMap,
+  canToggleCheck,
+  deepCloneData,
+  findAndUpdateItem,
+  getAncestorIds,
+  getItemLocation,
+  getPendingCheck,
+  hasUnloadedChildren,
+  insertItemAt,
+  markPendingChecks,
+  moveItemsInTree,
+  removeItemFromTree,
+  updateChildrenCheckedState,
+} from "@/lib/tree-utils";
+import { useTreeHistory } from "@/hooks/use-tree-history";
+import { useTreePersistence } from "@/hooks/use-tree-persistence";
+import { applyCheckChange, getCheckIndex } from "@/lib/tree-check-index";
+import {
+  createCheckStep,
+  createInsertStep,
+  createMoveStep,
+  createRemoveStep,
+  createUpdateStep,
+} from "@/lib/tree-history";
+import type { TreeStateMigration } from "@/lib/tree-persistence";
+import {
+  type TreeSelectionDescriptor,
+  applySelection,
+  getItemNamePath,
+  getSelectionDescriptor,
+  overrideSelection,
+} from "@/lib/tree-selection";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+export interface LoadChildrenOptions {
+  signal: AbortSignal; // Aborted when the folder is collapsed or the tree unmounts
+}
+
+export interface UseTreeStateOptions {
+  // Called the first time an unloaded folder (`loaded: false`) is expanded,
+  // and again when a failed folder is expanded or retried
+  loadChildren?: (
+    item: TreeViewItem,
+    options: LoadChildrenOptions
+  ) => Promise<TreeViewItem[]>;
+  checkStrategy?: TreeViewCheckStrategy; // Defaults to "cascade", pass the same one to TreeView
+  persistKey?: string; // Saves expansion, checks and scroll offset to localStorage under this key
+  persistVersion?: number; // Bump when saved state from older versions needs the migration, defaults to 1
+  migrate?: TreeStateMigration;
+  persistInUrl?: boolean; // Also keeps a compact copy in the query string (under persistKey) for shareable links
+}
+
+export interface TreeState<TMeta = unknown> {
+  data: TreeViewItem<TMeta>[]; // Typed like the initial data, so TreeView's renderDetails gets the meta type
+  setData: React.Dispatch<React.SetStateAction<TreeViewItem[]>>;
+  itemMap: Map<string, TreeViewItem>;
+  expandedIds: Set<string>;
+  setExpandedIds: React.Dispatch<React.SetStateAction<Set<string>>>;
+  onToggleExpand: (id: string, isOpen: boolean, item: TreeViewItem) => void;
+  onCheckChange: (item: TreeViewItem, checked: boolean) => void;
+  onCheckChanges: (changes: TreeViewCheckChange[]) => void; // Several at once, as one update and one undo step
+  getCheckedItems: (dataToProcess?: TreeViewItem[]) => TreeViewItem[]; // Folders with pendingCheck mean "everything inside"
+  insertItem: (
+    parentId: string | null,
+    item: TreeViewItem,
+    index?: number
+  ) => void;
+  removeItem: (id: string) => void;
+  updateItem: (id: string, changes: Partial<TreeViewItem>) => void;
+  replaceChildren: (parentId: string, children: TreeViewItem[]) => void;
+  moveItems: (move: TreeViewMoveEvent) => void; // Can be passed as onMove
+  exportSelection: () => TreeSelectionDescriptor;
+  importSelection: (descriptor: TreeSelectionDescriptor) => void; // Its rules also apply to nodes that load later
+  initialScrollTop?: number; // Scroll offset restored by persistKey
+  onScrollChange: (scrollTop: number) => void;
+  undo: () => void; // Check changes, inserts, removes, updates and moves
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+// After a change below them, store the derived check state on the given
+// folders (closest first) so `getCheckedItems` reports fully checked folders.
+// Independent checks never derive a folder's state from its children.
+const syncFolderCheckedState = (
+  data: TreeViewItem[],
+  folderIds: string[],
+  strategy: TreeViewCheckStrategy
+) => {
+  if (strategy === "independent") return;
+  const itemMap = buildItemMap(data);
+  folderIds.forEach((folderId) => {
+    const folder = itemMap.get(folderId);
+    if (folder) {
+      folder.checked = getCheckState(folder, itemMap) === "checked"; // Only set to true if all children are checked
+    }
+  });
+};
+
+// Check or uncheck a node and cascade the new state to the descendants that
+// can be toggled. Children that haven't loaded yet get the state when they do.
+const setNodeChecked = (
+  data: TreeViewItem[],
+  id: string,
+  checked: boolean,
+  strategy: TreeViewCheckStrategy
+) =>
+  findAndUpdateItem(data, id, (node) => {
+    node.checked = checked;
+    if (node.children && strategy !== "independent") {
+      updateChildrenCheckedState(node.children, checked);
+      markPendingChecks(node, checked);
+    }
+  });
+
+// Item maps by data, so a check change can pass on the map it updated (and
+// the check index that comes with it) rather than have it rebuilt
+const itemMaps = new WeakMap<TreeViewItem[], Map<string, TreeViewItem>>();
+
+const getItemMap = (data: TreeViewItem[]) => {
+  let itemMap = itemMaps.get(data);
+  if (!itemMap) {
+    itemMap = buildItemMap(data);
+    itemMaps.set(data, itemMap);
+  }
+  return itemMap;
+};
+
+// Derive the state of every folder, deepest first
+const syncAllFolderCheckedState = (
+  data: TreeViewItem[],
+  strategy: TreeViewCheckStrategy
+) => {
+  const folderIds: string[] = [];
+  const collectFolderIds = (items: TreeViewItem[]) => {
+    items.forEach((item) => {
+      if (!item.children) return;
+      collectFolderIds(item.children);
+      folderIds.push(item.id);
+    });
+  };
+  collectFolderIds(data);
+  syncFolderCheckedState(data, folderIds, strategy);
+};
+
+// Owns the data, expansion and check state a TreeView needs, including lazy
+// loading of folder children. The result can be spread into <TreeView />.
+export function useTreeState<TMeta = unknown>(
+  initialData: TreeViewItem<TMeta>[],
+  options: UseTreeStateOptions = {}
+): TreeState<TMeta> {
+  const [data, setData] = useState<TreeViewItem[]>(() =>
+    deepCloneData(initialData)
+  );
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+
+  // In-flight lazy loads by folder id, used to dedupe and cancel requests
+  const requestsRef = useRef<Map<string, AbortController>>(new Map());
+  const dataRef = useRef(data);
+  // The last imported selection, applied to children as they load
+  const selectionRef = useRef<TreeSelectionDescriptor | null>(null);
+
+  // Keep the latest options and data without invalidating the callbacks below
+  const optionsRef = useRef(options);
+  useEffect(() => {
+    optionsRef.current = options;
+    dataRef.current = data;
+  });
+
+  // Abort whatever is still loading when the tree goes away
+  useEffect(() => {
+    const requests = requestsRef.current;
+    return () => {
+      requests.forEach((controller) => controller.abort());
+      requests.clear();
+    };
+  }, []);
+
+  // Check changes and edits can be undone, loading folders can't
+  const { record, undo, redo, canUndo, canRedo } = useTreeHistory({
+    setData,
+    onApply: useCallback(
+      (items: TreeViewItem[]) =>
+        syncAllFolderCheckedState(
+          items,
+          optionsRef.current.checkStrategy ?? "cascade"
+        ),
+      []
+    ),
+  });
+
+  // Create a map of all items by ID from data
+  const itemMap = useMemo(() => getItemMap(data), [data]);
+  const checkStrategy = options.checkStrategy ?? "cascade";
+
+  // Get the checked items, in the form the check strategy reports them.
+  // Checked folders with a `pendingCheck` stand for all of their contents,
+  // including children that were never loaded, so every strategy reports them.
+  const getCheckedItems = useCallback(
+    (dataToProcess: TreeViewItem[] = data): TreeViewItem[] => {
+      const items: TreeViewItem[] = [];
+      const processItem = (item: TreeViewItem) => {
+        const isLeaf = !item.children || item.children.length === 0;
+        // Locked nodes count as checked, non-checkable ones are never reported
+        if ((item.checked || item.locked) && item.checkable !== false) {
+          if (checkStrategy !== "leaf-only" || isLeaf || item.pendingCheck) {
+            items.push(item);
+          }
+          // Everything below a fully checked folder is implied by it
+          if (checkStrategy === "parent-wins") return;
+        }
+        item.children?.forEach(processItem);
+      };
+      dataToProcess.forEach(processItem);
+      return items;
+    },
+    [data, checkStrategy]
+  );
+
+  // Clone the data, mutate one node and commit the result
+  const updateNode = useCallback(
+    (
+      id: string,
+      update: (
+        node: TreeViewItem,
+        siblings: TreeViewItem[],
+        index: number
+      ) => void
+    ) => {
+      setData((prevData) => {
+        const newData = deepCloneData(prevData);
+        return findAndUpdateItem(newData, id, update) ? newData : prevData;
+      });
+    },
+    []
+  );
+
+  const replaceChildren = useCallback(
+    (parentId: string, children: TreeViewItem[]) => {
+      setData((prevData) => {
+        const newData = deepCloneData(prevData);
+        const strategy = optionsRef.current.checkStrategy ?? "cascade";
+        const selection = selectionRef.current;
+        const found = findAndUpdateItem(newData, parentId, (node) => {
+          // Children a partial folder already had keep their state and subtree
+          const knownChildren = new Map(
+            node.partial ? node.children?.map((child) => [child.id, child]) : []
+          );
+          const newChildren: TreeViewItem[] = [];
+          const nextChildren = deepCloneData(children).map((child) => {
+            const known = knownChildren.get(child.id);
+            if (known) return known;
+            newChildren.push(child);
+            return child;
+          });
+          const inherited = strategy !== "independent" && getPendingCheck(node);
+          // New children get the state the folder was checked with before
+          // they were known, and the rules of an imported selection
+          if (inherited || selection) {
+            applySelection(
+              newChildren,
+              selection ?? { include: [], exclude: [] },
+              getItemNamePath(newData, parentId),
+              inherited
+            );
+          }
+          node.children = nextChildren;
+          node.pendingCheck = undefined;
+          node.loaded = true;
+          node.partial = undefined;
+          node.loading = false;
+          node.error = undefined;
+        });
+        if (!found) return prevData;
+        syncFolderCheckedState(
+          newData,
+          [parentId, ...getAncestorIds(newData, parentId)],
+          strategy
+        );
+        return newData;
+      });
+    },
+    []
+  );
+
+  // Start loading the children of a folder unless a request is in flight
+  const startLoad = useCallback(
+    (item: TreeViewItem) => {
+      const { loadChildren } = optionsRef.current;
+      const requests = requestsRef.current;
+      if (!loadChildren || requests.has(item.id)) return;
+
+      const controller = new AbortController();
+      requests.set(item.id, controller);
+      updateNode(item.id, (node) => {
+        node.loading = true;
+        node.error = undefined;
+      });
+
+      loadChildren(item, { signal: controller.signal })
+        .then((children) => {
+          if (controller.signal.aborted) return;
+          replaceChildren(item.id, children);
+        })
+        .catch((error) => {
+          if (controller.signal.aborted) return;
+          updateNode(item.id, (node) => {
+            node.loading = false;
+            node.error = error instanceof Error ? error.message : String(error);
+          });
+        })
+        .finally(() => {
+          if (requests.get(item.id) === controller) {
+            requests.delete(item.id);
+          }
+        });
+    },
+    [updateNode, replaceChildren]
+  );
+
+  // Abort the loads of a folder and of any folder below it
+  const cancelLoads = useCallback(
+    (id: string) => {
+      requestsRef.current.forEach((controller, requestId) => {
+        if (
+          requestId === id ||
+          getAncestorIds(dataRef.current, requestId).includes(id)
+        ) {
+          controller.abort();
+          requestsRef.current.delete(requestId);
+          updateNode(requestId, (node) => {
+            node.loading = false;
+          });
+        }
+      });
+    },
+    [updateNode]
+  );
+
+  const onToggleExpand = useCallback(
+    (id: string, isOpen: boolean, item: TreeViewItem) => {
+      setExpandedIds((prev) => {
+        const newExpandedIds = new Set(prev);
+        if (isOpen) {
+          newExpandedIds.add(id);
+        } else {
+          newExpandedIds.delete(id);
+        }
+        return newExpandedIds;
+      });
+
+      if (!isOpen) {
+        cancelLoads(id);
+        return;
+      }
+
+      // If expanding a folder that hasn't loaded (all of) its children yet
+      if (hasUnloadedChildren(item)) {
+        startLoad(item);
+      }
+    },
+    [startLoad, cancelLoads]
+  );
+
+  // Checks the user makes win over the imported rules for what loads below
+  // them later. With independent checks nothing below follows them anyway.
+  const overrideImportedSelection = useCallback(
+    (changes: TreeViewCheckChange[]) => {
+      const selection = selectionRef.current;
+      const strategy = optionsRef.current.checkStrategy ?? "cascade";
+      if (!selection || strategy === "independent") return;
+      const currentItemMap = getItemMap(dataRef.current);
+      const { parentIds } = getCheckIndex(currentItemMap, strategy);
+      const getPath = (id: string) => {
+        const names: string[] = [];
+        for (let nodeId: string | null = id; nodeId !== null;) {
+          names.unshift(currentItemMap.get(nodeId)?.name ?? "");
+          nodeId = parentIds.get(nodeId) ?? null;
+        }
+        return names.join("/");
+      };
+      selectionRef.current = changes.reduce((descriptor, { item, checked }) => {
+        const node = currentItemMap.get(item.id);
+        return node
+          ? overrideSelection(descriptor, node, getPath(node.id), checked)
+          : descriptor;
+      }, selection);
+    },
+    []
+  );
+
+  // Disabled, non-checkable and locked nodes keep their state
+  const onCheckChange = useCallback(
+    (item: TreeViewItem, checked: boolean) => {
+      if (!canToggleCheck(item)) return;
+      overrideImportedSelection([{ item, checked }]);
+      const step = createCheckStep();
+      record(step);
+      setData((prevData) => {
+        const prevItemMap = getItemMap(prevData);
+        // Copies only the node's subtree and the folders above it
+        const change = applyCheckChange(
+          prevData,
+          prevItemMap,
+          item.id,
+          checked,
+          optionsRef.current.checkStrategy ?? "cascade"
+        );
+        if (!change) return prevData;
+        itemMaps.set(change.data, change.itemMap);
+        step.captureNodes(prevItemMap, change.itemMap, change.changedIds);
+        return change.data;
+      });
+    },
+    [record, overrideImportedSelection]
+  );
+
+  // Applied in the given order, so a later change to a descendant wins over
+  // the cascade from an earlier one
+  const onCheckChanges = useCallback(
+    (changes: TreeViewCheckChange[]) => {
+      const toggleable = changes.filter(({ item }) => canToggleCheck(item));
+      if (toggleable.length === 0) return;
+      overrideImportedSelection(toggleable);
+      const step = createCheckStep();
+      record(step);
+      setData((prevData) => {
+        const newData = deepCloneData(prevData);
+        const strategy = optionsRef.current.checkStrategy ?? "cascade";
+        toggleable.forEach(({ item, checked }) =>
+          setNodeChecked(newData, item.id, checked, strategy)
+        );
+        // Cheaper than collecting the ancestors of every changed node
+        syncAllFolderCheckedState(newData, strategy);
+        step.capture(prevData, newData);
+        return newData;
+      });
+    },
+    [record, overrideImportedSelection]
+  );
+
+  const insertItem = useCallback(
+    (parentId: string | null, item: TreeViewItem, index?: number) => {
+      const step = createInsertStep(item, parentId);
+      record(step);
+      setData((prevData) => {
+        const newData = deepCloneData(prevData);
+        const [newItem] = deepCloneData([item]);
+        if (!insertItemAt(newData, parentId, index, newItem)) return prevData;
+        step.capture(getItemLocation(newData, newItem.id)?.index ?? 0);
+        syncFolderCheckedState(
+          newData,
+          getAncestorIds(newData, newItem.id),
+          optionsRef.current.checkStrategy ?? "cascade"
+        );
+        return newData;
+      });
+    },
+    [record]
+  );
+
+  const removeItem = useCallback(
+    (id: string) => {
+      cancelLoads(id);
+      const step = createRemoveStep(id);
+      record(step);
+      setData((prevData) => {
+        const newData = deepCloneData(prevData);
+        const ancestorIds = getAncestorIds(newData, id);
+        const location = getItemLocation(newData, id);
+        const removed = removeItemFromTree(newData, id);
+        if (!location || !removed) return prevData;
+        step.capture(removed, location.parentId, location.index);
+        syncFolderCheckedState(
+          newData,
+          ancestorIds,
+          optionsRef.current.checkStrategy ?? "cascade"
+        );
+        return newData;
+      });
+      setExpandedIds((prev) => {
+        if (!prev.has(id)) return prev;
+        const newExpandedIds = new Set(prev);
+        newExpandedIds.delete(id);
+        return newExpandedIds;
+      });
+    },
+    [cancelLoads, record]
+  );
+
+  const updateItem = useCallback(
+    (id: string, changes: Partial<TreeViewItem>) => {
+      const step = createUpdateStep(id, changes);
+      record(step);
+      updateNode(id, (node) => {
+        step.capture(node);
+        Object.assign(node, changes);
+      });
+    },
+    [updateNode, record]
+  );
+
+  const moveItems = useCallback(
+    ({ items, parentId, index }: TreeViewMoveEvent) => {
+      const ids = items.map((item) => item.id);
+      const step = createMoveStep(ids, parentId, index);
+      record(step);
+      setData((prevData) => {
+        const newData = deepCloneData(prevData);
+        step.capture(prevData);
+        // Both the old and the new ancestors may change their check state
+        const ancestorIds = new Set(
+          ids.flatMap((id) => getAncestorIds(newData, id))
+        );
+        if (!moveItemsInTree(newData, ids, parentId, index)) return prevData;
+        ids.forEach((id) =>
+          getAncestorIds(newData, id).forEach((ancestorId) =>
+            ancestorIds.add(ancestorId)
+          )
+        );
+        syncFolderCheckedState(
+          newData,
+          [...ancestorIds],
+          optionsRef.current.checkStrategy ?? "cascade"
+        );
+        return newData;
+      });
+    },
+    [record]
+  );
+
+  // Check state as include/exclude rules, e.g. to send to a backend job or to
+  // restore later onto a tree that hasn't loaded the same folders
+  const exportSelection = useCallback(
+    (): TreeSelectionDescriptor =>
+      getSelectionDescriptor(
+        dataRef.current,
+        selectionRef.current ?? undefined,
+        optionsRef.current.checkStrategy === "independent"
+      ),
+    []
+  );
+
+  const importSelection = useCallback((descriptor: TreeSelectionDescriptor) => {
+    selectionRef.current = descriptor;
+    setData((prevData) => {
+      const newData = deepCloneData(prevData);
+      applySelection(newData, descriptor);
+      syncAllFolderCheckedState(
+        newData,
+        optionsRef.current.checkStrategy ?? "cascade"
+      );
+      return newData;
+    });
+  }, []);
+
+  const { initialScrollTop, onScrollChange } = useTreePersistence({
+    persistKey: options.persistKey,
+    persistVersion: options.persistVersion ?? 1,
+    migrate: options.migrate,
+    persistInUrl: options.persistInUrl,
+    data,
+    itemMap,
+    expandedIds,
+    onToggleExpand,
+    exportSelection,
+    importSelection,
+  });
+
+  return {
+    data: data as TreeViewItem<TMeta>[], // Nodes only get meta from the app
+    setData,
+    itemMap,
+    expandedIds,
+    setExpandedIds,
+    onToggleExpand,
+    onCheckChange,
+    onCheckChanges,
+    getCheckedItems,
+    insertItem,
+    removeItem,
+    updateItem,
+    replaceChildren,
+    moveItems,
+    exportSelection,
+    importSelection,
+    initialScrollTop,
+    onScrollChange,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  };
+}
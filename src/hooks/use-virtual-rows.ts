@@ -0,0 +1,183 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+export interface VirtualRow {
+  index: number;
+  key: string;
+  start: number;
+}
+
+interface UseVirtualRowsOptions {
+  count: number;
+  getKey: (index: number) => string;
+  scrollRef: React.RefObject<HTMLElement | null>;
+  estimateSize?: number;
+  overscan?: number;
+  enabled?: boolean;
+  headerSize?: number; // Height of a sticky header above the rows, kept clear when scrolling to a row
+}
+
+// Binary search for the first row whose bottom is below `position`
+const findRowAt = (offsets: number[], count: number, position: number) => {
+  let low = 0;
+  let high = count - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid + 1] <= position) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+};
+
+// Windowing for lists with variable row heights.
+// Rows start at `estimateSize` and are corrected once their element has been
+// measured, so rows that grow (e.g. an error line below the label) just push
+// the following rows down.
+export function useVirtualRows({
+  count,
+  getKey,
+  scrollRef,
+  estimateSize = 32,
+  overscan = 8,
+  enabled = true,
+  headerSize = 0,
+}: UseVirtualRowsOptions) {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [measuredSizes, setMeasuredSizes] = useState<Map<string, number>>(
+    () => new Map()
+  );
+  const rowObserverRef = useRef<ResizeObserver | null>(null);
+
+  // Track scroll position and viewport size of the scroll container
+  useEffect(() => {
+    const scrollElement = scrollRef.current;
+    if (!enabled || !scrollElement) return;
+
+    const handleScroll = () => setScrollTop(scrollElement.scrollTop);
+    const viewportObserver = new ResizeObserver(() =>
+      setViewportHeight(scrollElement.clientHeight)
+    );
+
+    handleScroll();
+    setViewportHeight(scrollElement.clientHeight);
+    scrollElement.addEventListener("scroll", handleScroll, { passive: true });
+    viewportObserver.observe(scrollElement);
+    return () => {
+      scrollElement.removeEventListener("scroll", handleScroll);
+      viewportObserver.disconnect();
+    };
+  }, [enabled, scrollRef]);
+
+  useEffect(() => {
+    return () => {
+      rowObserverRef.current?.disconnect();
+      rowObserverRef.current = null;
+    };
+  }, []);
+
+  // Lazily create the row observer, ref callbacks run before effects do
+  const getRowObserver = useCallback(() => {
+    if (!rowObserverRef.current) {
+      rowObserverRef.current = new ResizeObserver((entries) => {
+        setMeasuredSizes((prev) => {
+          let next: Map<string, number> | null = null;
+          for (const entry of entries) {
+            const element = entry.target as HTMLElement;
+            const key = element.dataset.virtualKey;
+            if (!key) continue;
+            const size = element.offsetHeight;
+            if (prev.get(key) !== size) {
+              next = next ?? new Map(prev);
+              next.set(key, size);
+            }
+          }
+          return next ?? prev;
+        });
+      });
+    }
+    return rowObserverRef.current;
+  }, []);
+
+  // Ref callback for rendered rows, the element must carry data-virtual-key
+  const measureElement = useCallback(
+    (element: HTMLElement | null) => {
+      if (!element) return;
+      const observer = getRowObserver();
+      observer.observe(element);
+      return () => observer.unobserve(element);
+    },
+    [getRowObserver]
+  );
+
+  // offsets[i] is the top of row i, offsets[count] is the total height
+  const offsets = useMemo(() => {
+    const result = new Array<number>(count + 1);
+    result[0] = 0;
+    for (let i = 0; i < count; i++) {
+      result[i + 1] =
+        result[i] + (measuredSizes.get(getKey(i)) ?? estimateSize);
+    }
+    return result;
+  }, [count, getKey, measuredSizes, estimateSize]);
+
+  const virtualRows = useMemo((): VirtualRow[] => {
+    if (!enabled || count === 0) return [];
+
+    const low = findRowAt(offsets, count, scrollTop);
+    let end = low;
+    const viewportBottom = scrollTop + viewportHeight;
+    while (end < count && offsets[end] < viewportBottom) {
+      end++;
+    }
+
+    const rows: VirtualRow[] = [];
+    const first = Math.max(0, low - overscan);
+    const last = Math.min(count, end + overscan);
+    for (let index = first; index < last; index++) {
+      rows.push({ index, key: getKey(index), start: offsets[index] });
+    }
+    return rows;
+  }, [enabled, count, offsets, scrollTop, viewportHeight, overscan, getKey]);
+
+  // Scroll the minimum amount needed to bring a row into view
+  const scrollToIndex = useCallback(
+    (index: number) => {
+      const scrollElement = scrollRef.current;
+      if (!scrollElement || index < 0 || index >= count) return;
+      const start = offsets[index];
+      const end = offsets[index + 1];
+      if (start < scrollElement.scrollTop) {
+        scrollElement.scrollTop = start;
+      } else if (
+        end + headerSize >
+        scrollElement.scrollTop + scrollElement.clientHeight
+      ) {
+        scrollElement.scrollTop = end + headerSize - scrollElement.clientHeight;
+      }
+    },
+    [count, offsets, scrollRef, headerSize]
+  );
+
+  // Index range [first, last] of the rows overlapping a vertical span of the
+  // content, used for hit testing rows that may not be mounted
+  const getIndexRange = useCallback(
+    (top: number, bottom: number): [number, number] => {
+      const first = findRowAt(offsets, count, top);
+      let last = first;
+      while (last + 1 < count && offsets[last + 1] < bottom) last++;
+      return [first, Math.min(last, count - 1)];
+    },
+    [count, offsets]
+  );
+
+  return {
+    virtualRows,
+    totalSize: offsets[count],
+    measureElement,
+    scrollToIndex,
+    getIndexRange,
+  };
+}
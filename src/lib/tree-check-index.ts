@@ -0,0 +1,234 @@
+import type {
+  TreeViewCheckStrategy,
+  TreeViewItem,
+} from "@/components/tree-view";
+import {
+  countsTowardsParent,
+  deepCloneData,
+  getPendingCheck,
+  markPendingChecks,
+  updateChildrenCheckedState,
+} from "@/lib/tree-utils";
+
+type CheckState = "checked" | "unchecked" | "indeterminate";
+
+// The checked and total leaves at or below a node, as its parent counts them.
+// A node whose state is its own counts as one leaf, and the children a partial
+// folder hasn't loaded as one more.
+interface CheckCounts {
+  checked: number;
+  total: number;
+  derived: boolean; // Whether the node's state comes from its children
+}
+
+// Precomputed check states of a tree, so looking one up doesn't walk the
+// subtree below it. Counts are kept by node rather than by id: the copies a
+// change makes get their own, and the nodes it didn't touch keep theirs.
+export interface TreeCheckIndex {
+  independent: boolean;
+  parentIds: Map<string, string | null>;
+  counts: WeakMap<TreeViewItem, CheckCounts>;
+}
+
+// Every strategy but "independent" derives folder states the same way
+type IndexKey = "derived" | "independent";
+
+const getIndexKey = (strategy: TreeViewCheckStrategy): IndexKey =>
+  strategy === "independent" ? "independent" : "derived";
+
+// Indexes by item map, built the first time a map's check states are needed
+const indexes = new WeakMap<
+  Map<string, TreeViewItem>,
+  Map<IndexKey, TreeCheckIndex>
+>();
+
+const countNode = (
+  item: TreeViewItem,
+  counts: WeakMap<TreeViewItem, CheckCounts>,
+  independent: boolean
+): CheckCounts => {
+  const eligibleChildren = item.children?.filter(countsTowardsParent) ?? [];
+  if (independent || item.locked || eligibleChildren.length === 0) {
+    return {
+      checked: item.locked || item.checked ? 1 : 0,
+      total: 1,
+      derived: false,
+    };
+  }
+  let checked = 0;
+  let total = 0;
+  eligibleChildren.forEach((child) => {
+    const childCounts = counts.get(child);
+    checked += childCounts?.checked ?? 0;
+    total += childCounts?.total ?? 0;
+  });
+  if (item.partial) {
+    total++;
+    if (getPendingCheck(item)) checked++;
+  }
+  return { checked, total, derived: true };
+};
+
+const buildCheckIndex = (
+  itemMap: Map<string, TreeViewItem>,
+  independent: boolean
+): TreeCheckIndex => {
+  const parentIds = new Map<string, string | null>();
+  itemMap.forEach((item) =>
+    item.children?.forEach((child) => parentIds.set(child.id, item.id))
+  );
+  const counts = new WeakMap<TreeViewItem, CheckCounts>();
+  // Children first, so a folder sums up counts that are already there
+  const visit = (item: TreeViewItem) => {
+    item.children?.forEach(visit);
+    counts.set(item, countNode(item, counts, independent));
+  };
+  itemMap.forEach((item, id) => {
+    if (parentIds.has(id)) return;
+    parentIds.set(id, null);
+    visit(item);
+  });
+  return { independent, parentIds, counts };
+};
+
+// The index of an item map, built in one pass on first use. Nodes aren't
+// expected to change in place once their map is in use, changes go through
+// copies like `applyCheckChange` makes.
+export const getCheckIndex = (
+  itemMap: Map<string, TreeViewItem>,
+  strategy: TreeViewCheckStrategy
+): TreeCheckIndex => {
+  const key = getIndexKey(strategy);
+  let byKey = indexes.get(itemMap);
+  if (!byKey) {
+    byKey = new Map();
+    indexes.set(itemMap, byKey);
+  }
+  let index = byKey.get(key);
+  if (!index) {
+    index = buildCheckIndex(itemMap, key === "independent");
+    byKey.set(key, index);
+  }
+  return index;
+};
+
+// The state of a node as it is in the item map the index belongs to
+export const getIndexedCheckState = (
+  index: TreeCheckIndex,
+  item: TreeViewItem | undefined
+): CheckState => {
+  if (!item) return "unchecked";
+  // Locked nodes are always checked, non-checkable ones never are
+  if (item.locked) return "checked";
+  if (item.checkable === false) return "unchecked";
+  const counts = index.counts.get(item);
+  if (!counts?.derived) return item.checked ? "checked" : "unchecked";
+  if (counts.checked === counts.total) return "checked";
+  return counts.checked > 0 ? "indeterminate" : "unchecked";
+};
+
+export interface TreeCheckChangeResult {
+  data: TreeViewItem[];
+  itemMap: Map<string, TreeViewItem>;
+  changedIds: string[]; // The copied nodes, every node whose state changed is among them
+}
+
+// Checks or unchecks a node like a click does: the check cascades to the
+// descendants that can be toggled and the ancestors store their derived
+// state. Only the node's subtree and the folders above it are copied and
+// recounted, the item map and index for the new data come along. Null when
+// the node isn't in the data.
+export const applyCheckChange = (
+  data: TreeViewItem[],
+  itemMap: Map<string, TreeViewItem>,
+  id: string,
+  checked: boolean,
+  strategy: TreeViewCheckStrategy
+): TreeCheckChangeResult | null => {
+  if (!itemMap.has(id)) return null;
+  const index = getCheckIndex(itemMap, strategy);
+
+  // Closest first
+  const ancestorIds: string[] = [];
+  let parentId = index.parentIds.get(id) ?? null;
+  while (parentId !== null) {
+    ancestorIds.push(parentId);
+    parentId = index.parentIds.get(parentId) ?? null;
+  }
+
+  const { counts } = index;
+  const newData = [...data];
+  const newItemMap = new Map(itemMap);
+  const changedIds: string[] = [];
+
+  // Copy the folders from the root down, each with its own children array.
+  // Closest first, along with the node each copy replaces.
+  const ancestors: [TreeViewItem, TreeViewItem][] = [];
+  let siblings = newData;
+  [...ancestorIds].reverse().forEach((ancestorId) => {
+    const position = siblings.findIndex((node) => node.id === ancestorId);
+    const folder = siblings[position];
+    const copy = { ...folder, children: [...(folder.children ?? [])] };
+    siblings[position] = copy;
+    newItemMap.set(ancestorId, copy);
+    ancestors.unshift([copy, folder]);
+    siblings = copy.children;
+  });
+  const position = siblings.findIndex((node) => node.id === id);
+  const original = siblings[position];
+  const [node] = deepCloneData([original]);
+  siblings[position] = node;
+
+  node.checked = checked;
+  if (node.children && strategy !== "independent") {
+    updateChildrenCheckedState(node.children, checked);
+    markPendingChecks(node, checked);
+  }
+
+  const recount = (item: TreeViewItem) => {
+    item.children?.forEach(recount);
+    newItemMap.set(item.id, item);
+    counts.set(item, countNode(item, counts, index.independent));
+    changedIds.push(item.id);
+  };
+  recount(node);
+
+  // Pass the difference on up, as far as the ancestors derive their state
+  // from the child below them. The ones above keep their counts.
+  const before = counts.get(original);
+  const after = counts.get(node);
+  const checkedDelta = (after?.checked ?? 0) - (before?.checked ?? 0);
+  const totalDelta = (after?.total ?? 0) - (before?.total ?? 0);
+  let propagate = true;
+  let child = node;
+  ancestors.forEach(([copy, replaced]) => {
+    const ancestorCounts = counts.get(replaced);
+    if (!ancestorCounts) return;
+    propagate &&= countsTowardsParent(child) && ancestorCounts.derived;
+    counts.set(
+      copy,
+      propagate
+        ? {
+            ...ancestorCounts,
+            checked: ancestorCounts.checked + checkedDelta,
+            total: ancestorCounts.total + totalDelta,
+          }
+        : ancestorCounts
+    );
+    child = copy;
+  });
+
+  // Nothing but checks changed, so the new map shares the index
+  indexes.set(newItemMap, new Map([[getIndexKey(strategy), index]]));
+
+  // Only set to true if all children are checked. The flag of a folder that
+  // derives its state isn't part of its counts, and the others keep theirs.
+  ancestors.forEach(([ancestor]) => {
+    if (strategy !== "independent") {
+      ancestor.checked = getIndexedCheckState(index, ancestor) === "checked";
+    }
+    changedIds.push(ancestor.id);
+  });
+
+  return { data: newData, itemMap: newItemMap, changedIds };
+};
@@ -0,0 +1,158 @@
+import type { TreeViewItem } from "@/components/tree-view";
+import {
+  deepCloneData,
+  hasUnloadedChildren,
+  insertItemAt,
+} from "@/lib/tree-utils";
+
+export type TreeDiffKind =
+  "added" | "removed" | "renamed" | "type-changed" | "moved";
+
+export interface TreeDiffChange {
+  kinds: TreeDiffKind[];
+  previousName?: string; // Set when renamed
+  previousType?: string; // Set when the type changed
+  previousParentId?: string | null; // Set when moved, null for the root level
+}
+
+export interface TreeDiff {
+  items: TreeViewItem[]; // The after tree, with removed nodes back where they were
+  changes: Map<string, TreeDiffChange>; // By node id, unchanged nodes have no entry
+  previous: Map<string, TreeViewItem>; // Nodes of the before tree, e.g. to name a previous parent
+}
+
+interface IndexedNode {
+  item: TreeViewItem;
+  parentId: string | null;
+  index: number;
+}
+
+// Every node with its parent and position, in tree order
+const indexTree = (items: TreeViewItem[]) => {
+  const nodes = new Map<string, IndexedNode>();
+  const visit = (siblings: TreeViewItem[], parentId: string | null) => {
+    siblings.forEach((item, index) => {
+      nodes.set(item.id, { item, parentId, index });
+      if (item.children) visit(item.children, item.id);
+    });
+  };
+  visit(items, null);
+  return nodes;
+};
+
+// A node missing from the other snapshot may just not have loaded there:
+// its parent hasn't loaded (all of) its children on the other side, or is
+// itself such a node. Call in tree order.
+const createUnknownCheck = (otherNodes: Map<string, IndexedNode>) => {
+  const unknownIds = new Set<string>();
+  return (id: string, parentId: string | null) => {
+    if (parentId === null) return false;
+    const otherParent = otherNodes.get(parentId);
+    if (
+      unknownIds.has(parentId) ||
+      (otherParent && hasUnloadedChildren(otherParent.item))
+    ) {
+      unknownIds.add(id);
+      return true;
+    }
+    return false;
+  };
+};
+
+// Compare two snapshots of the same tree, matching nodes by id. A node is
+// moved when its parent changed, reordering among siblings isn't a change.
+export const diffTrees = (
+  before: TreeViewItem[],
+  after: TreeViewItem[]
+): TreeDiff => {
+  const beforeNodes = indexTree(before);
+  const afterNodes = indexTree(after);
+  const changes = new Map<string, TreeDiffChange>();
+  const isUnknownAdd = createUnknownCheck(beforeNodes);
+  const isUnknownRemove = createUnknownCheck(afterNodes);
+
+  afterNodes.forEach(({ item, parentId }, id) => {
+    const previous = beforeNodes.get(id);
+    if (!previous) {
+      if (!isUnknownAdd(id, parentId)) changes.set(id, { kinds: ["added"] });
+      return;
+    }
+    const change: TreeDiffChange = { kinds: [] };
+    if (previous.item.name !== item.name) {
+      change.kinds.push("renamed");
+      change.previousName = previous.item.name;
+    }
+    if (previous.item.type !== item.type) {
+      change.kinds.push("type-changed");
+      change.previousType = previous.item.type;
+    }
+    if (previous.parentId !== parentId) {
+      change.kinds.push("moved");
+      change.previousParentId = previous.parentId;
+    }
+    if (change.kinds.length > 0) changes.set(id, change);
+  });
+
+  // Removed nodes go back under their old parent, whole subtrees at once
+  // minus the children that live on elsewhere
+  const items = deepCloneData(after);
+  const cloneRemoved = (item: TreeViewItem): TreeViewItem => ({
+    ...item,
+    children: item.children
+      ?.filter((child) => !afterNodes.has(child.id))
+      .map(cloneRemoved),
+  });
+  beforeNodes.forEach(({ item, parentId, index }, id) => {
+    if (afterNodes.has(id) || isUnknownRemove(id, parentId)) return;
+    changes.set(id, { kinds: ["removed"] });
+    // Descendants of a removed node come along with it
+    if (parentId !== null && !afterNodes.has(parentId)) return;
+    insertItemAt(items, parentId, index, cloneRemoved(item));
+  });
+
+  return {
+    items,
+    changes,
+    previous: new Map([...beforeNodes].map(([id, { item }]) => [id, item])),
+  };
+};
+
+// Only the changed nodes and the folders leading to them
+export const filterChangedItems = (
+  items: TreeViewItem[],
+  changes: Map<string, TreeDiffChange>
+): TreeViewItem[] =>
+  items.flatMap((item) => {
+    const children = item.children
+      ? filterChangedItems(item.children, changes)
+      : undefined;
+    if (!changes.has(item.id) && !children?.length) return [];
+    return [{ ...item, children }];
+  });
+
+// Folders with changes somewhere below them, to open up front. Added and
+// removed folders stay closed, everything inside them changed the same way.
+export const getFoldersWithChanges = (
+  items: TreeViewItem[],
+  changes: Map<string, TreeDiffChange>
+): string[] => {
+  const folderIds: string[] = [];
+  const visit = (nodes: TreeViewItem[]): boolean => {
+    let hasChanges = false;
+    nodes.forEach((item) => {
+      const kinds = changes.get(item.id)?.kinds ?? [];
+      const changesBelow = item.children ? visit(item.children) : false;
+      if (
+        changesBelow &&
+        !kinds.includes("added") &&
+        !kinds.includes("removed")
+      ) {
+        folderIds.push(item.id);
+      }
+      if (changesBelow || kinds.length > 0) hasChanges = true;
+    });
+    return hasChanges;
+  };
+  visit(items);
+  return folderIds;
+};
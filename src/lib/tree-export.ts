@@ -0,0 +1,145 @@
+import type { TreeViewItem } from "@/components/tree-view";
+
+export type TreeExportFormat = "json" | "csv" | "markdown" | "mermaid";
+
+type CheckState = "checked" | "unchecked" | "indeterminate";
+
+export interface TreeExportOptions {
+  getCheckState?: (item: TreeViewItem) => CheckState; // Defaults to the node's own `checked`
+}
+
+// Label, file extension and MIME type per format, for menus and downloads
+export const treeExportFormats: Record<
+  TreeExportFormat,
+  { label: string; extension: string; mimeType: string }
+> = {
+  json: { label: "JSON", extension: "json", mimeType: "application/json" },
+  csv: { label: "CSV", extension: "csv", mimeType: "text/csv" },
+  markdown: { label: "Markdown", extension: "md", mimeType: "text/markdown" },
+  mermaid: { label: "Mermaid", extension: "mmd", mimeType: "text/plain" },
+};
+
+const getOwnCheckState = (item: TreeViewItem): CheckState =>
+  item.checked ? "checked" : "unchecked";
+
+interface ExportedNode {
+  id: string;
+  name: string;
+  type: string;
+  meta?: unknown;
+  children?: ExportedNode[];
+}
+
+// Just what describes the node, loading and check bookkeeping stays behind
+const toExportedNode = (item: TreeViewItem): ExportedNode => ({
+  id: item.id,
+  name: item.name,
+  type: item.type,
+  ...(item.meta !== undefined && { meta: item.meta }),
+  ...(item.children && { children: item.children.map(toExportedNode) }),
+});
+
+// Nested JSON of the nodes with their id, name, type, meta and children
+export const exportTreeJson = (items: TreeViewItem[]): string =>
+  JSON.stringify(items.map(toExportedNode), null, 2);
+
+const escapeCsvField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// One row per node in tree order, with the names from the root down joined
+// by "/" in the path column
+export const exportTreeCsv = (
+  items: TreeViewItem[],
+  { getCheckState = getOwnCheckState }: TreeExportOptions = {}
+): string => {
+  const lines = [["path", "id", "name", "type", "state"].join(",")];
+  const visit = (nodes: TreeViewItem[], parentPath: string | null) => {
+    nodes.forEach((item) => {
+      const path =
+        parentPath === null ? item.name : `${parentPath}/${item.name}`;
+      lines.push(
+        [path, item.id, item.name, item.type, getCheckState(item)]
+          .map(escapeCsvField)
+          .join(",")
+      );
+      if (item.children) visit(item.children, path);
+    });
+  };
+  visit(items, null);
+  return lines.join("\n");
+};
+
+const markdownBoxes: Record<CheckState, string> = {
+  checked: "[x]",
+  unchecked: "[ ]",
+  indeterminate: "[-]",
+};
+
+// Indented checklist, partly checked folders get "[-]"
+export const exportTreeMarkdown = (
+  items: TreeViewItem[],
+  { getCheckState = getOwnCheckState }: TreeExportOptions = {}
+): string => {
+  const lines: string[] = [];
+  const visit = (nodes: TreeViewItem[], depth: number) => {
+    nodes.forEach((item) => {
+      const name = item.name.replace(/[\\`*_[\]]/g, "\\$&");
+      lines.push(
+        `${"  ".repeat(depth)}- ${markdownBoxes[getCheckState(item)]} ${name}`
+      );
+      if (item.children) visit(item.children, depth + 1);
+    });
+  };
+  visit(items, 0);
+  return lines.join("\n");
+};
+
+// `graph TD` with an edge from every folder to each of its children. Node
+// ids are generated, names can hold anything Mermaid would choke on.
+export const exportTreeMermaid = (items: TreeViewItem[]): string => {
+  const lines = ["graph TD"];
+  let count = 0;
+  const visit = (nodes: TreeViewItem[], parentKey: string | null) => {
+    nodes.forEach((item) => {
+      const key = `n${count++}`;
+      const label = item.name.replace(/"/g, "#quot;");
+      lines.push(`  ${key}["${label}"]`);
+      if (parentKey !== null) lines.push(`  ${parentKey} --> ${key}`);
+      if (item.children) visit(item.children, key);
+    });
+  };
+  visit(items, null);
+  return lines.join("\n");
+};
+
+// The nodes in any of the formats, e.g. for tests or a custom export UI
+export const exportTree = (
+  items: TreeViewItem[],
+  format: TreeExportFormat,
+  options: TreeExportOptions = {}
+): string => {
+  switch (format) {
+    case "json":
+      return exportTreeJson(items);
+    case "csv":
+      return exportTreeCsv(items, options);
+    case "markdown":
+      return exportTreeMarkdown(items, options);
+    case "mermaid":
+      return exportTreeMermaid(items);
+  }
+};
+
+// Saves the text as a file through a temporary download link
+export const downloadText = (
+  text: string,
+  fileName: string,
+  mimeType: string
+) => {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  window.setTimeout(() => URL.revokeObjectURL(url));
+};
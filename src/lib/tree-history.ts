@@ -0,0 +1,163 @@
+import type { TreeViewItem } from "@/components/tree-view";
+import {
+  buildItemMap,
+  deepCloneData,
+  findAndUpdateItem,
+  getItemLocation,
+  insertItemAt,
+  moveItemsInTree,
+  removeItemFromTree,
+} from "@/lib/tree-utils";
+
+// A reversible change to the data. Both directions mutate a copy of the
+// current data rather than restoring a snapshot, so folders that loaded in
+// the meantime are kept.
+export interface TreeHistoryStep {
+  undo: (items: TreeViewItem[]) => void;
+  redo: (items: TreeViewItem[]) => void;
+}
+
+type CheckFields = Pick<TreeViewItem, "checked" | "pendingCheck">;
+
+const getCheckFields = (item: TreeViewItem): CheckFields => ({
+  checked: item.checked,
+  pendingCheck: item.pendingCheck,
+});
+
+// Check changes, found by comparing the data before and after. Every node
+// whose state changed is recorded, including the folders derived from it.
+export const createCheckStep = () => {
+  let changes = new Map<string, [CheckFields, CheckFields]>();
+  const apply = (items: TreeViewItem[], side: 0 | 1) => {
+    const itemMap = buildItemMap(items);
+    changes.forEach((change, id) => {
+      const node = itemMap.get(id);
+      if (node) Object.assign(node, change[side]);
+    });
+  };
+  const compare = (
+    prevMap: Map<string, TreeViewItem>,
+    nextMap: Map<string, TreeViewItem>,
+    ids: Iterable<string>
+  ) => {
+    changes = new Map();
+    for (const id of ids) {
+      const before = prevMap.get(id);
+      const node = nextMap.get(id);
+      if (
+        before &&
+        node &&
+        (before.checked !== node.checked ||
+          before.pendingCheck !== node.pendingCheck)
+      ) {
+        changes.set(id, [getCheckFields(before), getCheckFields(node)]);
+      }
+    }
+  };
+  return {
+    capture: (prevItems: TreeViewItem[], nextItems: TreeViewItem[]) => {
+      const nextMap = buildItemMap(nextItems);
+      compare(buildItemMap(prevItems), nextMap, nextMap.keys());
+    },
+    // Only compares the given nodes, for changes known to touch no others
+    captureNodes: (
+      prevMap: Map<string, TreeViewItem>,
+      nextMap: Map<string, TreeViewItem>,
+      ids: Iterable<string>
+    ) => compare(prevMap, nextMap, ids),
+    undo: (items: TreeViewItem[]) => apply(items, 0),
+    redo: (items: TreeViewItem[]) => apply(items, 1),
+  };
+};
+
+// Changed fields of a single node, e.g. a rename
+export const createUpdateStep = (
+  id: string,
+  changes: Partial<TreeViewItem>
+) => {
+  let previous: Partial<TreeViewItem> = {};
+  const assign = (items: TreeViewItem[], values: Partial<TreeViewItem>) =>
+    findAndUpdateItem(items, id, (node) => Object.assign(node, values));
+  return {
+    capture: (node: TreeViewItem) => {
+      previous = Object.fromEntries(
+        Object.keys(changes).map((key) => [
+          key,
+          node[key as keyof TreeViewItem],
+        ])
+      );
+    },
+    undo: (items: TreeViewItem[]) => assign(items, previous),
+    redo: (items: TreeViewItem[]) => assign(items, changes),
+  };
+};
+
+export const createInsertStep = (
+  item: TreeViewItem,
+  parentId: string | null
+) => {
+  let index: number | undefined;
+  return {
+    capture: (insertedIndex: number) => {
+      index = insertedIndex;
+    },
+    undo: (items: TreeViewItem[]) => {
+      removeItemFromTree(items, item.id);
+    },
+    redo: (items: TreeViewItem[]) => {
+      insertItemAt(items, parentId, index, deepCloneData([item])[0]);
+    },
+  };
+};
+
+export const createRemoveStep = (id: string) => {
+  let removed: {
+    node: TreeViewItem;
+    parentId: string | null;
+    index: number;
+  } | null = null;
+  return {
+    capture: (node: TreeViewItem, parentId: string | null, index: number) => {
+      removed = { node: deepCloneData([node])[0], parentId, index };
+    },
+    undo: (items: TreeViewItem[]) => {
+      if (!removed) return;
+      const node = deepCloneData([removed.node])[0];
+      insertItemAt(items, removed.parentId, removed.index, node);
+    },
+    redo: (items: TreeViewItem[]) => {
+      removeItemFromTree(items, id);
+    },
+  };
+};
+
+export const createMoveStep = (
+  ids: string[],
+  parentId: string | null,
+  index: number
+) => {
+  let origins: { id: string; parentId: string | null; index: number }[] = [];
+  return {
+    capture: (prevItems: TreeViewItem[]) => {
+      origins = ids.flatMap((id) => {
+        const location = getItemLocation(prevItems, id);
+        return location ? [{ id, ...location }] : [];
+      });
+    },
+    undo: (items: TreeViewItem[]) => {
+      const nodes = new Map(
+        ids.map((id) => [id, removeItemFromTree(items, id)])
+      );
+      // Lower indexes first, so each lands where it was among its siblings
+      [...origins]
+        .sort((a, b) => a.index - b.index)
+        .forEach((origin) => {
+          const node = nodes.get(origin.id);
+          if (node) insertItemAt(items, origin.parentId, origin.index, node);
+        });
+    },
+    redo: (items: TreeViewItem[]) => {
+      moveItemsInTree(items, ids, parentId, index);
+    },
+  };
+};
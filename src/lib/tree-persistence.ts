@@ -0,0 +1,86 @@
+import type {
+  TreeSelectionDescriptor,
+  TreeSelectionRule,
+} from "@/lib/tree-selection";
+
+// What `persistKey` saves between visits
+export interface PersistedTreeState {
+  version: number;
+  expandedIds: string[];
+  selection: TreeSelectionDescriptor; // Check state, as exportSelection returns it
+  scrollTop: number;
+}
+
+// Upgrades state saved by an older `persistVersion`, null discards it
+export type TreeStateMigration = (
+  saved: unknown,
+  savedVersion: number
+) => PersistedTreeState | null;
+
+// URL form: [version, expandedIds, include, exclude, scrollTop], with rules
+// as a plain id or a one-item [pattern] array
+type CompactRule = string | [string];
+type CompactTreeState = [
+  number,
+  string[],
+  CompactRule[],
+  CompactRule[],
+  number,
+];
+
+const compactRule = (rule: TreeSelectionRule): CompactRule =>
+  "id" in rule ? rule.id : [rule.pattern];
+
+const expandRule = (rule: CompactRule): TreeSelectionRule =>
+  typeof rule === "string" ? { id: rule } : { pattern: rule[0] };
+
+export const encodeTreeState = (state: PersistedTreeState): string =>
+  JSON.stringify([
+    state.version,
+    state.expandedIds,
+    state.selection.include.map(compactRule),
+    state.selection.exclude.map(compactRule),
+    Math.round(state.scrollTop),
+  ] satisfies CompactTreeState);
+
+// Throws on values that aren't JSON
+export const decodeTreeState = (value: string): unknown => {
+  const parsed: unknown = JSON.parse(value);
+  if (!Array.isArray(parsed)) return parsed;
+  const [version, expandedIds, include, exclude, scrollTop] =
+    parsed as CompactTreeState;
+  return {
+    version,
+    expandedIds,
+    selection: {
+      include: include.map(expandRule),
+      exclude: exclude.map(expandRule),
+    },
+    scrollTop,
+  } satisfies PersistedTreeState;
+};
+
+const isPersistedTreeState = (value: unknown): value is PersistedTreeState => {
+  const state = value as PersistedTreeState | null;
+  return (
+    typeof state?.version === "number" &&
+    Array.isArray(state.expandedIds) &&
+    Array.isArray(state.selection?.include) &&
+    Array.isArray(state.selection?.exclude) &&
+    typeof state.scrollTop === "number"
+  );
+};
+
+// Validate saved state, running the migration when it is from another version
+export const restoreTreeState = (
+  saved: unknown,
+  version: number,
+  migrate?: TreeStateMigration
+): PersistedTreeState | null => {
+  if (isPersistedTreeState(saved) && saved.version === version) return saved;
+  const savedVersion = (saved as { version?: unknown } | null)?.version;
+  const migrated =
+    migrate?.(saved, typeof savedVersion === "number" ? savedVersion : 0) ??
+    null;
+  return isPersistedTreeState(migrated) ? migrated : null;
+};
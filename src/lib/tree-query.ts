@@ -0,0 +1,273 @@
+import type { TreeViewItem } from "@/components/tree-view";
+import { globToRegExp } from "@/lib/tree-selection";
+
+// What a query is tested against for each node
+export interface TreeQueryNode {
+  item: TreeViewItem;
+  path: string; // Names from the root down, joined with "/"
+  checkState: () => "checked" | "unchecked" | "indeterminate";
+}
+
+export type TreeQueryPredicate = (node: TreeQueryNode) => boolean;
+
+type Token =
+  | { kind: "(" | ")" | "AND" | "OR" | "NOT"; position: number }
+  | { kind: "term"; predicate: TreeQueryPredicate; position: number };
+
+const keywords = new Set(["AND", "OR", "NOT"]);
+
+const fields = ["name", "path", "type", "id", "is"] as const;
+type Field = (typeof fields)[number];
+
+// `is:` flags
+const nodeFlags: Record<string, TreeQueryPredicate> = {
+  folder: ({ item }) => !!item.children,
+  leaf: ({ item }) => !item.children,
+  checked: ({ checkState }) => checkState() === "checked",
+  unchecked: ({ checkState }) => checkState() === "unchecked",
+  indeterminate: ({ checkState }) => checkState() === "indeterminate",
+  disabled: ({ item }) => !!item.disabled,
+  locked: ({ item }) => !!item.locked,
+};
+
+const getFieldValue = (field: Exclude<Field, "is">, node: TreeQueryNode) =>
+  field === "path" ? node.path : node.item[field];
+
+// Path globs match from any folder down, as if they started with "**/".
+// A leading "/" anchors them at the root instead.
+const toPathGlob = (value: string) =>
+  value.startsWith("/") ? value.slice(1) : `**/${value}`;
+
+// `field:value`, globs for name, path and type, exact for id and is
+const createFieldPredicate = (
+  field: Field,
+  value: string,
+  position: number
+): TreeQueryPredicate => {
+  if (field === "is") {
+    const flag = nodeFlags[value.toLowerCase()];
+    if (!flag) {
+      throw new Error(
+        `Unknown flag "is:${value}" at ${position}, use one of ${Object.keys(nodeFlags).join(", ")}`
+      );
+    }
+    return flag;
+  }
+  if (field === "id") return ({ item }) => item.id === value;
+  const regex = globToRegExp(field === "path" ? toPathGlob(value) : value, "i");
+  return (node) => regex.test(getFieldValue(field, node));
+};
+
+const isField = (value: string): value is Field =>
+  (fields as readonly string[]).includes(value);
+
+// Splits the query into terms, keywords and parentheses. Terms are
+// `field:value`, `field~/regex/flags` or bare (optionally quoted) text that
+// is looked for anywhere in the name.
+const tokenize = (query: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  const readQuoted = () => {
+    const start = index;
+    let value = "";
+    index++; // Opening quote
+    while (index < query.length && query[index] !== '"') {
+      if (query[index] === "\\" && index + 1 < query.length) index++;
+      value += query[index++];
+    }
+    if (index >= query.length) throw new Error(`Unclosed quote at ${start}`);
+    index++; // Closing quote
+    return value;
+  };
+
+  const readBare = () => {
+    const start = index;
+    while (index < query.length && !/[\s()]/.test(query[index])) index++;
+    return query.slice(start, index);
+  };
+
+  const readValue = () => (query[index] === '"' ? readQuoted() : readBare());
+
+  const readRegExp = () => {
+    const start = index;
+    if (query[index] !== "/") throw new Error(`Expected "/" at ${index}`);
+    index++;
+    let source = "";
+    while (index < query.length && query[index] !== "/") {
+      if (query[index] === "\\" && index + 1 < query.length) {
+        source += query[index++];
+      }
+      source += query[index++];
+    }
+    if (index >= query.length) throw new Error(`Unclosed regex at ${start}`);
+    index++; // Closing slash
+    const flagsStart = index;
+    while (/[a-z]/.test(query[index] ?? "")) index++;
+    // Global and sticky flags would make `test` remember the last match
+    const flags = query.slice(flagsStart, index).replace(/[gy]/g, "");
+    return new RegExp(source, flags);
+  };
+
+  while (index < query.length) {
+    const char = query[index];
+    const position = index;
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === "(" || char === ")") {
+      tokens.push({ kind: char, position });
+      index++;
+    } else if (char === '"') {
+      const text = readQuoted().toLowerCase();
+      tokens.push({
+        kind: "term",
+        predicate: ({ item }) => item.name.toLowerCase().includes(text),
+        position,
+      });
+    } else {
+      const fieldMatch = /^([a-z]+)([:~])/i.exec(query.slice(index));
+      if (fieldMatch) {
+        const field = fieldMatch[1].toLowerCase();
+        if (!isField(field)) {
+          throw new Error(
+            `Unknown field "${fieldMatch[1]}" at ${position}, use one of ${fields.join(", ")}`
+          );
+        }
+        index += fieldMatch[0].length;
+        if (fieldMatch[2] === "~") {
+          if (field === "is") {
+            throw new Error(`"is" can't be matched by a regex at ${position}`);
+          }
+          const regex = readRegExp();
+          tokens.push({
+            kind: "term",
+            predicate: (node) => regex.test(getFieldValue(field, node)),
+            position,
+          });
+        } else {
+          const value = readValue();
+          if (!value)
+            throw new Error(`Missing value for "${field}" at ${index}`);
+          tokens.push({
+            kind: "term",
+            predicate: createFieldPredicate(field, value, position),
+            position,
+          });
+        }
+        continue;
+      }
+      const word = readBare();
+      if (keywords.has(word)) {
+        tokens.push({ kind: word as "AND" | "OR" | "NOT", position });
+      } else {
+        const text = word.toLowerCase();
+        tokens.push({
+          kind: "term",
+          predicate: ({ item }) => item.name.toLowerCase().includes(text),
+          position,
+        });
+      }
+    }
+  }
+  return tokens;
+};
+
+// Compiles a query like `type:table AND name~/^user/ AND path:"Schema Public/*"`
+// into a predicate. Terms next to each other are ANDed, NOT binds tightest
+// and OR loosest; keywords are upper case so they can't clash with names.
+// Throws on syntax errors, with the character offset in the message.
+export const parseTreeQuery = (query: string): TreeQueryPredicate => {
+  const tokens = tokenize(query);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const describe = (token: Token | undefined) =>
+    token
+      ? `${token.kind === "term" ? "term" : `"${token.kind}"`} at ${token.position}`
+      : "end of query";
+
+  const parseOr = (): TreeQueryPredicate => {
+    const operands = [parseAnd()];
+    while (peek()?.kind === "OR") {
+      index++;
+      operands.push(parseAnd());
+    }
+    return operands.length === 1
+      ? operands[0]
+      : (node) => operands.some((operand) => operand(node));
+  };
+
+  const parseAnd = (): TreeQueryPredicate => {
+    const operands = [parseNot()];
+    for (;;) {
+      const token = peek();
+      if (token?.kind === "AND") {
+        index++;
+      } else if (!token || token.kind === "OR" || token.kind === ")") {
+        break;
+      }
+      operands.push(parseNot());
+    }
+    return operands.length === 1
+      ? operands[0]
+      : (node) => operands.every((operand) => operand(node));
+  };
+
+  const parseNot = (): TreeQueryPredicate => {
+    if (peek()?.kind === "NOT") {
+      index++;
+      const operand = parseNot();
+      return (node) => !operand(node);
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): TreeQueryPredicate => {
+    const token = peek();
+    if (token?.kind === "term") {
+      index++;
+      return token.predicate;
+    }
+    if (token?.kind === "(") {
+      index++;
+      const inner = parseOr();
+      if (peek()?.kind !== ")") {
+        throw new Error(`Expected ")" but found ${describe(peek())}`);
+      }
+      index++;
+      return inner;
+    }
+    throw new Error(`Expected a term but found ${describe(token)}`);
+  };
+
+  const predicate = parseOr();
+  if (index < tokens.length) {
+    throw new Error(`Unexpected ${describe(tokens[index])}`);
+  }
+  return predicate;
+};
+
+// Loaded nodes the predicate accepts, in tree order
+export const findQueryMatches = (
+  items: TreeViewItem[],
+  predicate: TreeQueryPredicate,
+  getCheckState: (item: TreeViewItem) => ReturnType<TreeQueryNode["checkState"]>
+): TreeViewItem[] => {
+  const matches: TreeViewItem[] = [];
+  const visit = (nodes: TreeViewItem[], parentPath: string | null) => {
+    nodes.forEach((item) => {
+      const path =
+        parentPath === null ? item.name : `${parentPath}/${item.name}`;
+      if (predicate({ item, path, checkState: () => getCheckState(item) })) {
+        matches.push(item);
+      }
+      if (item.children) visit(item.children, path);
+    });
+  };
+  visit(items, null);
+  return matches;
+};
+
+// Quotes a value for a `field:value` term when it has spaces or syntax in it
+export const quoteQueryValue = (value: string) =>
+  /[\s()"]/.test(value) ? `"${value.replace(/["\\]/g, "\\$&")}"` : value;
@@ -0,0 +1,165 @@
+import type {
+  TreeViewItem,
+  TreeViewMatcher,
+  TreeViewSearchMatch,
+} from "@/components/tree-view";
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Ranges of every match of a global regex, skipping empty matches
+const getRegExpRanges = (regex: RegExp, name: string): [number, number][] =>
+  [...name.matchAll(regex)]
+    .filter((match) => match[0].length > 0)
+    .map((match) => [match.index, match.index + match[0].length]);
+
+// Case-insensitive `includes`. Prefix matches and names that are mostly the
+// query rank first.
+const substringMatcher: TreeViewMatcher = (query) => {
+  const regex = new RegExp(escapeRegExp(query), "gi");
+  return (name) => {
+    const ranges = getRegExpRanges(regex, name);
+    if (ranges.length === 0) return null;
+    return {
+      ranges,
+      score: (ranges[0][0] === 0 ? 2 : 1) + query.length / name.length,
+    };
+  };
+};
+
+// The query as a whole word, e.g. "user" matches "get user" but not "users"
+const wordMatcher: TreeViewMatcher = (query) => {
+  const regex = new RegExp(`\\b${escapeRegExp(query)}\\b`, "gi");
+  return (name) => {
+    const ranges = getRegExpRanges(regex, name);
+    if (ranges.length === 0) return null;
+    return { ranges, score: 1 + query.length / name.length };
+  };
+};
+
+// The query is used as a case-insensitive pattern, invalid patterns throw
+const regexMatcher: TreeViewMatcher = (query) => {
+  const regex = new RegExp(query, "gi");
+  return (name) => {
+    const ranges = getRegExpRanges(regex, name);
+    return ranges.length > 0 ? { ranges, score: 1 } : null;
+  };
+};
+
+const isWordStart = (name: string, index: number) =>
+  index === 0 ||
+  !/[a-z0-9]/i.test(name[index - 1]) ||
+  (/[a-z]/.test(name[index - 1]) && /[A-Z]/.test(name[index]));
+
+// The query characters in order but not necessarily next to each other,
+// e.g. "gubi" matches "get_user_by_id". Runs of consecutive characters and
+// characters at the start of a word score higher.
+const fuzzyMatcher: TreeViewMatcher = (query) => {
+  const queryLower = query.toLowerCase();
+  return (name) => {
+    const nameLower = name.toLowerCase();
+    const ranges: [number, number][] = [];
+    let score = 0;
+    let queryIndex = 0;
+    for (
+      let index = 0;
+      index < name.length && queryIndex < queryLower.length;
+      index++
+    ) {
+      if (nameLower[index] !== queryLower[queryIndex]) continue;
+      queryIndex++;
+      score += 1;
+      if (isWordStart(name, index)) score += 2;
+      const previous = ranges[ranges.length - 1];
+      if (previous && previous[1] === index) {
+        previous[1] = index + 1;
+        score += 2;
+      } else {
+        ranges.push([index, index + 1]);
+      }
+    }
+    if (queryIndex < queryLower.length) return null;
+    return { ranges, score: score / queryLower.length - name.length / 100 };
+  };
+};
+
+export const searchMatchers = {
+  substring: substringMatcher,
+  fuzzy: fuzzyMatcher,
+  regex: regexMatcher,
+  word: wordMatcher,
+} satisfies Record<string, TreeViewMatcher>;
+
+export interface TreeSearchResult<TMeta = unknown> {
+  filteredData: TreeViewItem<TMeta>[];
+  expandedIds: Set<string>; // Folders to open so every match is visible
+  matches: Map<string, TreeViewSearchMatch>;
+  matchIds: string[]; // In the order the filtered tree renders them
+  error: string | null; // Set when the matcher rejected the query
+}
+
+// Keep the nodes that match and the folders leading to them. Folders that
+// match themselves keep only their matching descendants. With `rank` on,
+// siblings are ordered by the best score found in their subtree.
+// `extraMatchIds` count as matches without highlighting, e.g. nodes a
+// server-side search found for reasons the matcher can't see.
+export const searchTree = <TMeta = unknown>(
+  items: TreeViewItem<TMeta>[],
+  query: string,
+  matcher: TreeViewMatcher,
+  rank: boolean,
+  extraMatchIds: Set<string> = new Set()
+): TreeSearchResult<TMeta> => {
+  const expandedIds = new Set<string>();
+  const matches = new Map<string, TreeViewSearchMatch>();
+  let match: (name: string) => TreeViewSearchMatch | null;
+  try {
+    match = matcher(query);
+  } catch (error) {
+    return {
+      filteredData: [],
+      expandedIds,
+      matches,
+      matchIds: [],
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  const filterTree = (
+    nodes: TreeViewItem<TMeta>[]
+  ): { item: TreeViewItem<TMeta>; best: number }[] => {
+    const results: { item: TreeViewItem<TMeta>; best: number }[] = [];
+    nodes.forEach((node) => {
+      const nodeMatch =
+        match(node.name) ??
+        (extraMatchIds.has(node.id) ? { ranges: [], score: 0 } : null);
+      if (nodeMatch) matches.set(node.id, nodeMatch);
+      let best = nodeMatch?.score ?? -Infinity;
+      if (!node.children) {
+        if (nodeMatch) results.push({ item: node, best });
+        return;
+      }
+      const children = filterTree(node.children);
+      if (children.length === 0 && !nodeMatch) return;
+      children.forEach((child) => (best = Math.max(best, child.best)));
+      expandedIds.add(node.id);
+      results.push({
+        item: { ...node, children: children.map((child) => child.item) },
+        best,
+      });
+    });
+    // Array.prototype.sort is stable, equal scores keep the tree order
+    return rank ? results.sort((a, b) => b.best - a.best) : results;
+  };
+
+  const filteredData = filterTree(items).map((result) => result.item);
+  const matchIds: string[] = [];
+  const collectMatchIds = (nodes: TreeViewItem[]) => {
+    nodes.forEach((node) => {
+      if (matches.has(node.id)) matchIds.push(node.id);
+      if (node.children) collectMatchIds(node.children);
+    });
+  };
+  collectMatchIds(filteredData);
+  return { filteredData, expandedIds, matches, matchIds, error: null };
+};
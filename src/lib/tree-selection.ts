@@ -0,0 +1,241 @@
+import type { TreeViewItem } from "@/components/tree-view";
+import {
+  buildItemMap,
+  canToggleCheck,
+  countsTowardsParent,
+  getAncestorIds,
+  getPendingCheck,
+  hasUnloadedChildren,
+} from "@/lib/tree-utils";
+
+// A node by id, or every node whose path of names (joined with "/") matches
+// a glob. `*` matches within one name, `**` any number of names and `?` a
+// single character, e.g. "Database A/**/orders".
+export type TreeSelectionRule = { id: string } | { pattern: string };
+
+// Serializable form of the check state. A node is checked when the rule on
+// it, or else on its closest ancestor with a rule, is an include. Ancestors
+// that can't be toggled end the search, like they end the cascade. On the
+// same node id rules beat patterns and excludes beat includes.
+export interface TreeSelectionDescriptor {
+  include: TreeSelectionRule[];
+  exclude: TreeSelectionRule[];
+}
+
+const emptySelection: TreeSelectionDescriptor = { include: [], exclude: [] };
+
+// Also used by the query bar's `path:` and `name:` terms
+export const globToRegExp = (pattern: string, flags?: string) => {
+  let source = "";
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    if (char === "*" && pattern[index + 1] === "*") {
+      // "**/" may also match no names at all
+      if (pattern[index + 2] === "/") {
+        source += "(?:.*/)?";
+        index += 2;
+      } else {
+        source += ".*";
+        index += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`, flags);
+};
+
+const joinPath = (parentPath: string | null, name: string) =>
+  parentPath === null ? name : `${parentPath}/${name}`;
+
+// Looks up the rules for a node, `undefined` when none applies to it
+const createRuleMatcher = (descriptor: TreeSelectionDescriptor) => {
+  const getIds = (rules: TreeSelectionRule[]) =>
+    new Set(rules.flatMap((rule) => ("id" in rule ? [rule.id] : [])));
+  const getPatterns = (rules: TreeSelectionRule[]) =>
+    rules.flatMap((rule) =>
+      "pattern" in rule ? [globToRegExp(rule.pattern)] : []
+    );
+  const includedIds = getIds(descriptor.include);
+  const excludedIds = getIds(descriptor.exclude);
+  const includedPatterns = getPatterns(descriptor.include);
+  const excludedPatterns = getPatterns(descriptor.exclude);
+  return {
+    byId: (id: string): boolean | undefined => {
+      if (excludedIds.has(id)) return false;
+      return includedIds.has(id) ? true : undefined;
+    },
+    byPath: (path: string): boolean | undefined => {
+      if (excludedPatterns.some((regex) => regex.test(path))) return false;
+      return includedPatterns.some((regex) => regex.test(path))
+        ? true
+        : undefined;
+    },
+  };
+};
+
+// Path of names from the root down to a node, as patterns match it
+export const getItemNamePath = (
+  items: TreeViewItem[],
+  id: string
+): string | null => {
+  const itemMap = buildItemMap(items);
+  const item = itemMap.get(id);
+  if (!item) return null;
+  return [...getAncestorIds(items, id).reverse(), id]
+    .map((nodeId) => itemMap.get(nodeId)?.name)
+    .join("/");
+};
+
+// Set the check state of `items` and everything below them from the rules.
+// `inherited` is the state of their parent at `parentPath`. Nodes that can't
+// be toggled keep their state, and like the cascade the state doesn't pass
+// through them: their children start out unchecked. Folders still loading
+// children record the state for them in `pendingCheck`. Mutates the items.
+export const applySelection = (
+  items: TreeViewItem[],
+  descriptor: TreeSelectionDescriptor,
+  parentPath: string | null = null,
+  inherited = false
+) => {
+  const matcher = createRuleMatcher(descriptor);
+  const apply = (
+    nodes: TreeViewItem[],
+    nodesParentPath: string | null,
+    parentChecked: boolean
+  ) => {
+    nodes.forEach((node) => {
+      const path = joinPath(nodesParentPath, node.name);
+      if (!canToggleCheck(node)) {
+        if (node.children) apply(node.children, path, false);
+        return;
+      }
+      const checked =
+        matcher.byId(node.id) ?? matcher.byPath(path) ?? parentChecked;
+      node.checked = checked;
+      if (hasUnloadedChildren(node)) {
+        node.pendingCheck = checked || undefined;
+      }
+      if (node.children) apply(node.children, path, checked);
+    });
+  };
+  apply(items, parentPath, inherited);
+};
+
+// Let a check the user made on `item` at `path` win over the rules for
+// what loads below it later. Unchecking excludes the contents of every
+// folder in its subtree that hasn't loaded yet, checking drops the exclude
+// patterns below it. Patterns that reach further, e.g. "**/tmp_*", still
+// apply elsewhere.
+export const overrideSelection = (
+  descriptor: TreeSelectionDescriptor,
+  item: TreeViewItem,
+  path: string,
+  checked: boolean
+): TreeSelectionDescriptor => {
+  const isBelow = (rule: TreeSelectionRule) =>
+    "pattern" in rule && rule.pattern.startsWith(`${path}/`);
+  if (checked) {
+    return {
+      ...descriptor,
+      exclude: descriptor.exclude.filter((rule) => !isBelow(rule)),
+    };
+  }
+  // Without include patterns the contents inherit the uncheck anyway
+  if (!descriptor.include.some((rule) => "pattern" in rule)) return descriptor;
+  const unloaded: TreeSelectionRule[] = [];
+  const collect = (node: TreeViewItem, nodePath: string) => {
+    if (hasUnloadedChildren(node)) unloaded.push({ pattern: `${nodePath}/**` });
+    node.children?.forEach((child) =>
+      collect(child, joinPath(nodePath, child.name))
+    );
+  };
+  collect(item, path);
+  return {
+    include: descriptor.include.filter((rule) => !isBelow(rule)),
+    exclude: [
+      ...descriptor.exclude.filter((rule) => !isBelow(rule)),
+      ...unloaded,
+    ],
+  };
+};
+
+interface SelectionRule {
+  id: string;
+  checked: boolean;
+}
+
+// The fewest id rules that reproduce the check state of `items`. Rules of
+// `previous` (e.g. the last import) are kept where they still matter: its
+// patterns, and id rules for nodes that haven't loaded. With `independent`
+// checks a folder's own state is kept, else whichever state for the folder
+// needs fewer rules in its subtree.
+export const getSelectionDescriptor = (
+  items: TreeViewItem[],
+  previous: TreeSelectionDescriptor = emptySelection,
+  independent = false
+): TreeSelectionDescriptor => {
+  const matcher = createRuleMatcher(previous);
+
+  // Rules for a node and its subtree, given its parent is unchecked ([0]) or
+  // checked ([1])
+  const solve = (
+    node: TreeViewItem,
+    parentPath: string | null
+  ): [SelectionRule[], SelectionRule[]] => {
+    const path = joinPath(parentPath, node.name);
+    const children = (node.children ?? []).map((child) => solve(child, path));
+    // No rule for a node that can't be toggled, its children get theirs as
+    // if it were unchecked
+    if (!canToggleCheck(node)) {
+      const rules = children.flatMap((child) => child[0]);
+      return [rules, rules];
+    }
+    const patternState = matcher.byPath(path);
+    // Folders still loading children pass their pending state on to them.
+    // Like leaves, folders without children that count keep their own.
+    const candidates = independent
+      ? [!!node.checked]
+      : hasUnloadedChildren(node)
+        ? [getPendingCheck(node)]
+        : node.children?.some(countsTowardsParent)
+          ? [false, true]
+          : [!!node.checked];
+
+    const getRules = (inherited: boolean) => {
+      let best: SelectionRule[] | null = null;
+      for (const checked of candidates) {
+        const rules = [
+          ...(checked === (patternState ?? inherited)
+            ? []
+            : [{ id: node.id, checked }]),
+          ...children.flatMap((child) => child[Number(checked)]),
+        ];
+        // On a tie prefer checking the folder, so "all of it except" covers
+        // children that are added later
+        if (!best || rules.length <= best.length) best = rules;
+      }
+      return best ?? [];
+    };
+    return [getRules(false), getRules(true)];
+  };
+
+  const rules = items.flatMap((item) => solve(item, null)[0]);
+  const itemMap = buildItemMap(items);
+  const keep = (previousRules: TreeSelectionRule[]) =>
+    previousRules.filter((rule) => "pattern" in rule || !itemMap.has(rule.id));
+  return {
+    include: [
+      ...keep(previous.include),
+      ...rules.filter((rule) => rule.checked).map(({ id }) => ({ id })),
+    ],
+    exclude: [
+      ...keep(previous.exclude),
+      ...rules.filter((rule) => !rule.checked).map(({ id }) => ({ id })),
+    ],
+  };
+};
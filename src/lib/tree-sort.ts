@@ -0,0 +1,88 @@
+import type { TreeViewItem, TreeViewSortOrder } from "@/components/tree-view";
+
+export type TreeItemComparator<TMeta = unknown> = (
+  a: TreeViewItem<TMeta>,
+  b: TreeViewItem<TMeta>
+) => number;
+
+const naturalCollator = new Intl.Collator(undefined, {
+  numeric: true,
+  sensitivity: "base",
+});
+
+// Text in natural order, digits compare by value so "table2" comes before
+// "table10". Case and accents are ignored.
+export const compareNatural = (a: string, b: string) =>
+  naturalCollator.compare(a, b);
+
+const sortOrders: Record<
+  Exclude<TreeViewSortOrder, TreeItemComparator>,
+  TreeItemComparator
+> = {
+  "folders-first": (a, b) => Number(!a.children) - Number(!b.children),
+  natural: (a, b) => compareNatural(a.name, b.name),
+  type: (a, b) => compareNatural(a.type, b.type),
+};
+
+// One comparator out of several, each later one breaks the ties of the ones
+// before it, e.g. ["folders-first", "natural"]
+export const createSiblingComparator = (
+  sort: TreeViewSortOrder | TreeViewSortOrder[]
+): TreeItemComparator => {
+  const comparators = (Array.isArray(sort) ? sort : [sort]).map((order) =>
+    typeof order === "function" ? order : sortOrders[order]
+  );
+  return (a, b) => {
+    for (const compare of comparators) {
+      const result = compare(a, b);
+      if (result !== 0) return result;
+    }
+    return 0;
+  };
+};
+
+// Orders every group of siblings with `compare`. Folders are copied to hold
+// their sorted children, leaves are passed through as they are.
+export const sortTreeSiblings = <TMeta = unknown>(
+  items: TreeViewItem<TMeta>[],
+  compare: TreeItemComparator<TMeta>
+): TreeViewItem<TMeta>[] =>
+  [...items]
+    .sort(compare)
+    .map((item) =>
+      item.children
+        ? { ...item, children: sortTreeSiblings(item.children, compare) }
+        : item
+    );
+
+// Moves siblings of the same type next to each other, the types in the order
+// they first appear and the nodes in their order within each type
+export const groupTreeSiblingsByType = <TMeta = unknown>(
+  items: TreeViewItem<TMeta>[]
+): TreeViewItem<TMeta>[] => {
+  const byType = new Map<string, TreeViewItem<TMeta>[]>();
+  items.forEach((item) => {
+    const group = byType.get(item.type) ?? [];
+    group.push(
+      item.children
+        ? { ...item, children: groupTreeSiblingsByType(item.children) }
+        : item
+    );
+    byType.set(item.type, group);
+  });
+  return [...byType.values()].flat();
+};
+
+// Where each run of same-type siblings starts, by index, and how long it is.
+// Empty when the siblings are all of one type, a single group needs no header.
+export const getTypeGroupStarts = (
+  siblings: TreeViewItem[]
+): Map<number, number> => {
+  const starts = new Map<number, number>();
+  let start = 0;
+  siblings.forEach((item, index) => {
+    if (index > 0 && item.type !== siblings[index - 1].type) start = index;
+    starts.set(start, index - start + 1);
+  });
+  return starts.size > 1 ? starts : new Map();
+};
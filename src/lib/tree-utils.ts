@@ -0,0 +1,562 @@
+import type { TreeViewItem } from "@/components/tree-view";
+import { getTypeGroupStarts } from "@/lib/tree-sort";
+
+// Helper function to build a map of all items by ID
+export const buildItemMap = (
+  items: TreeViewItem[]
+): Map<string, TreeViewItem> => {
+  const map = new Map<string, TreeViewItem>();
+  const processItem = (item: TreeViewItem) => {
+    map.set(item.id, item);
+    item.children?.forEach(processItem);
+  };
+  items.forEach(processItem);
+  return map;
+};
+
+// Helper function to deep clone data
+export const deepCloneData = (data: TreeViewItem[]): TreeViewItem[] => {
+  return data.map((item) => ({
+    ...item,
+    children: item.children ? deepCloneData(item.children) : undefined,
+  }));
+};
+
+// A node as a flat record that points at its parent instead of holding its
+// children, e.g. a row from an API
+export type TreeFlatRow<TMeta = unknown> = Omit<
+  TreeViewItem<TMeta>,
+  "children"
+> & {
+  parentId?: string | null; // Missing or null at the top level
+  isFolder?: boolean; // Needed for folders without rows below them
+};
+
+// A few ids for an error message
+const formatIds = (ids: Iterable<string>) => {
+  const list = [...ids];
+  const shown = list
+    .slice(0, 5)
+    .map((id) => `"${id}"`)
+    .join(", ");
+  return list.length > 5 ? `${shown} and ${list.length - 5} more` : shown;
+};
+
+// Builds the nested tree from flat rows, siblings keep the order of the
+// rows. Folders with rows below them are loaded, the others are left to load
+// lazily unless their row sets `loaded`. Throws on duplicate ids, parentId
+// cycles and, unless `orphans` says otherwise, rows whose parent is missing.
+export const fromFlat = <TMeta = unknown>(
+  rows: TreeFlatRow<TMeta>[],
+  { orphans = "error" }: { orphans?: "error" | "root" | "drop" } = {}
+): TreeViewItem<TMeta>[] => {
+  const nodes = new Map<string, TreeViewItem<TMeta>>();
+  const parentIds = new Map<string, string | null>();
+  const duplicateIds = new Set<string>();
+  rows.forEach(({ parentId, isFolder, ...row }) => {
+    if (nodes.has(row.id)) {
+      duplicateIds.add(row.id);
+      return;
+    }
+    nodes.set(row.id, { ...row, children: isFolder ? [] : undefined });
+    parentIds.set(row.id, parentId ?? null);
+  });
+  if (duplicateIds.size > 0) {
+    throw new Error(`Duplicate ids ${formatIds(duplicateIds)}`);
+  }
+
+  // Follow every parent chain up, nodes already known to end at the top
+  // level (or at a missing parent) aren't walked again
+  const settledIds = new Set<string>();
+  nodes.forEach((_, id) => {
+    const chain: string[] = [];
+    let current: string | null = id;
+    while (current !== null && nodes.has(current) && !settledIds.has(current)) {
+      const index = chain.indexOf(current);
+      if (index !== -1) {
+        const cycle = [...chain.slice(index), current].join(" → ");
+        throw new Error(`parentId cycle ${cycle}`);
+      }
+      chain.push(current);
+      current = parentIds.get(current) ?? null;
+    }
+    chain.forEach((chainId) => settledIds.add(chainId));
+  });
+
+  const roots: TreeViewItem<TMeta>[] = [];
+  const orphanIds: string[] = [];
+  nodes.forEach((node, id) => {
+    const parentId = parentIds.get(id) ?? null;
+    const parent = parentId !== null ? nodes.get(parentId) : undefined;
+    if (parentId === null) {
+      roots.push(node);
+    } else if (parent) {
+      parent.children = parent.children ?? [];
+      parent.children.push(node);
+    } else {
+      orphanIds.push(id);
+      if (orphans === "root") roots.push(node);
+    }
+  });
+  if (orphanIds.length > 0 && orphans === "error") {
+    throw new Error(`Missing parents for ${formatIds(orphanIds)}`);
+  }
+
+  nodes.forEach((node) => {
+    if (node.children && node.loaded === undefined) {
+      node.loaded = node.children.length > 0;
+    }
+  });
+  return roots;
+};
+
+// The tree as flat rows in tree order, what fromFlat builds it back from
+export const toFlat = <TMeta = unknown>(
+  items: TreeViewItem<TMeta>[]
+): TreeFlatRow<TMeta>[] => {
+  const rows: TreeFlatRow<TMeta>[] = [];
+  const visit = (nodes: TreeViewItem<TMeta>[], parentId: string | null) => {
+    nodes.forEach(({ children, ...item }) => {
+      rows.push(
+        children ? { ...item, parentId, isFolder: true } : { ...item, parentId }
+      );
+      if (children) visit(children, item.id);
+    });
+  };
+  visit(items, null);
+  return rows;
+};
+
+interface TreePathOptions {
+  separator?: string;
+}
+
+// Builds the tree from paths like "db/schema/table", adding the folders on
+// the way. Ids are the paths up to each node. A path ending in the separator
+// is a folder whose contents load lazily, the folders leading to other paths
+// count as loaded.
+export const fromPaths = (
+  paths: string[],
+  {
+    separator = "/",
+    getType = (_names, isFolder) => (isFolder ? "folder" : "file"),
+  }: TreePathOptions & {
+    getType?: (names: string[], isFolder: boolean) => string; // Gets the names from the root down to the node
+  } = {}
+): TreeViewItem[] => {
+  const roots: TreeViewItem[] = [];
+  const nodes = new Map<string, TreeViewItem>();
+  paths.forEach((path) => {
+    const isFolderPath = path.endsWith(separator);
+    const names = path.split(separator).filter((name) => name !== "");
+    let siblings = roots;
+    names.forEach((name, index) => {
+      const nodeNames = names.slice(0, index + 1);
+      const id = nodeNames.join(separator);
+      const isLast = index === names.length - 1;
+      const isFolder = !isLast || isFolderPath;
+      let node = nodes.get(id);
+      if (!node) {
+        node = isFolder
+          ? {
+              id,
+              name,
+              type: getType(nodeNames, true),
+              children: [],
+              loaded: false,
+            }
+          : { id, name, type: getType(nodeNames, false) };
+        nodes.set(id, node);
+        siblings.push(node);
+      } else if (isFolder && !node.children) {
+        // Listed as a leaf before, but there is more below it
+        node.type = getType(nodeNames, true);
+        node.children = [];
+        node.loaded = false;
+      }
+      if (!isLast && node.children) {
+        node.loaded = true;
+        siblings = node.children;
+      }
+    });
+  });
+  return roots;
+};
+
+// The paths fromPaths builds the tree back from: one per leaf, and one
+// ending in the separator per folder without loaded children. Throws on
+// names containing the separator, as their paths would be ambiguous.
+export const toPaths = (
+  items: TreeViewItem[],
+  { separator = "/" }: TreePathOptions = {}
+): string[] => {
+  const paths: string[] = [];
+  const visit = (nodes: TreeViewItem[], prefix: string) => {
+    nodes.forEach((item) => {
+      if (item.name.includes(separator)) {
+        throw new Error(
+          `Name "${item.name}" of "${item.id}" contains the separator "${separator}"`
+        );
+      }
+      const path = `${prefix}${item.name}`;
+      if (!item.children) {
+        paths.push(path);
+      } else if (item.children.length === 0) {
+        paths.push(`${path}${separator}`);
+      } else {
+        visit(item.children, `${path}${separator}`);
+      }
+    });
+  };
+  visit(items, "");
+  return paths;
+};
+
+// Whether the user can change the check state of a node. Disabled,
+// non-checkable and locked nodes keep theirs.
+export const canToggleCheck = (item: TreeViewItem): boolean =>
+  !item.disabled && item.checkable !== false && !item.locked;
+
+// Whether a node counts towards the check state of its parent. Locked nodes
+// do, as checked ones.
+export const countsTowardsParent = (item: TreeViewItem): boolean =>
+  !item.disabled && item.checkable !== false;
+
+// Whether a folder still has children to load, either none of them or the
+// rest of a partial list
+export const hasUnloadedChildren = (item: TreeViewItem): boolean =>
+  !!item.children &&
+  (!!item.partial || (item.children.length === 0 && !item.loaded));
+
+// The check state children of a folder get when they load. Folders checked
+// before their children were known pass it on even without `pendingCheck`.
+export const getPendingCheck = (item: TreeViewItem): boolean =>
+  item.pendingCheck ?? (item.children?.length === 0 && !!item.checked);
+
+// Record a check on the folders in a subtree that haven't loaded all their
+// children, so it can be applied once they arrive. Follows the same rules
+// as the cascade.
+export const markPendingChecks = (item: TreeViewItem, checked: boolean) => {
+  if (!canToggleCheck(item)) return;
+  if (hasUnloadedChildren(item)) {
+    item.pendingCheck = checked || undefined;
+  }
+  item.children?.forEach((child) => markPendingChecks(child, checked));
+};
+
+// Helper to update checked state recursively for children.
+// Nodes that can't be toggled are skipped along with everything below them.
+export const updateChildrenCheckedState = (
+  items: TreeViewItem[],
+  checked: boolean
+) => {
+  items.forEach((child) => {
+    if (!canToggleCheck(child)) return;
+    child.checked = checked;
+    if (child.children) {
+      updateChildrenCheckedState(child.children, checked);
+    }
+  });
+};
+
+// Recursively find a node by id and let `update` mutate it in place.
+// `siblings` and `index` locate the node within its parent, for removals.
+export const findAndUpdateItem = (
+  nodes: TreeViewItem[],
+  targetId: string,
+  update: (node: TreeViewItem, siblings: TreeViewItem[], index: number) => void
+): boolean => {
+  for (let index = 0; index < nodes.length; index++) {
+    const node = nodes[index];
+    if (node.id === targetId) {
+      update(node, nodes, index);
+      return true;
+    }
+    if (node.children && findAndUpdateItem(node.children, targetId, update)) {
+      return true;
+    }
+  }
+  return false;
+};
+
+// Parent (null for the root level) and index among its siblings of a node
+export const getItemLocation = (
+  items: TreeViewItem[],
+  id: string
+): { parentId: string | null; index: number } | null => {
+  let index = -1;
+  const found = findAndUpdateItem(items, id, (_node, _siblings, nodeIndex) => {
+    index = nodeIndex;
+  });
+  if (!found) return null;
+  return { parentId: getAncestorIds(items, id)[0] ?? null, index };
+};
+
+// Insert a node under a parent (null for the root level), at the end unless
+// an index is given. Returns false when the parent doesn't exist.
+export const insertItemAt = (
+  items: TreeViewItem[],
+  parentId: string | null,
+  index: number | undefined,
+  node: TreeViewItem
+): boolean => {
+  let siblings = items;
+  if (parentId !== null) {
+    const parent = buildItemMap(items).get(parentId);
+    if (!parent) return false;
+    parent.children = parent.children ?? [];
+    siblings = parent.children;
+  }
+  siblings.splice(Math.min(index ?? siblings.length, siblings.length), 0, node);
+  return true;
+};
+
+// Take a node out of the tree, returns it or null when it isn't there
+export const removeItemFromTree = (
+  items: TreeViewItem[],
+  id: string
+): TreeViewItem | null => {
+  let removed: TreeViewItem | null = null;
+  findAndUpdateItem(items, id, (node, siblings, index) => {
+    siblings.splice(index, 1);
+    removed = node;
+  });
+  return removed;
+};
+
+// Ids of the ancestors of a node, closest parent first
+export const getAncestorIds = (
+  items: TreeViewItem[],
+  targetId: string
+): string[] => {
+  const findPath = (nodes: TreeViewItem[], path: string[]): string[] | null => {
+    for (const node of nodes) {
+      if (node.id === targetId) return path;
+      if (node.children) {
+        const result = findPath(node.children, [node.id, ...path]);
+        if (result) return result;
+      }
+    }
+    return null;
+  };
+  return findPath(items, []) ?? [];
+};
+
+// A single rendered row of the tree once the visible part is flattened.
+// "error" rows sit below a folder whose children failed to load, "draft"
+// rows hold the name input for a node being created. `item` is that folder.
+// "group" rows head a run of siblings of one type, `item` is the first of them.
+export interface FlatTreeRow<TMeta = unknown> {
+  kind: "item" | "error" | "draft" | "group";
+  item: TreeViewItem<TMeta>;
+  depth: number;
+  parentId: string | null;
+  posInSet: number; // 1-based position among its siblings
+  setSize: number;
+  groupSize?: number; // Nodes in the run a "group" row heads
+}
+
+// Flatten the visible part of the tree into render order.
+// Children are only included for folders that are expanded and loaded,
+// mirroring what the recursive TreeItem renders.
+export const flattenVisibleTree = <TMeta = unknown>(
+  items: TreeViewItem<TMeta>[],
+  expandedIds: Set<string>,
+  draftParentId: string | null = null,
+  groupByType = false
+): FlatTreeRow<TMeta>[] => {
+  const rows: FlatTreeRow<TMeta>[] = [];
+  const processItems = (
+    nodes: TreeViewItem<TMeta>[],
+    depth: number,
+    parentId: string | null
+  ) => {
+    const groupStarts = groupByType ? getTypeGroupStarts(nodes) : null;
+    nodes.forEach((node, index) => {
+      const groupSize = groupStarts?.get(index);
+      if (groupSize) {
+        rows.push({
+          kind: "group",
+          item: node,
+          depth,
+          parentId,
+          posInSet: index + 1,
+          setSize: nodes.length,
+          groupSize,
+        });
+      }
+      rows.push({
+        kind: "item",
+        item: node,
+        depth,
+        parentId,
+        posInSet: index + 1,
+        setSize: nodes.length,
+      });
+      if (!node.children || !expandedIds.has(node.id)) return;
+      if (node.loaded) {
+        if (node.id === draftParentId) {
+          rows.push({
+            kind: "draft",
+            item: node,
+            depth: depth + 1,
+            parentId: node.id,
+            posInSet: 1,
+            setSize: node.children.length + 1,
+          });
+        }
+        processItems(node.children, depth + 1, node.id);
+      } else if (node.error) {
+        rows.push({
+          kind: "error",
+          item: node,
+          depth: depth + 1,
+          parentId: node.id,
+          posInSet: 1,
+          setSize: 1,
+        });
+      }
+    });
+  };
+  processItems(items, 0, null);
+  return rows;
+};
+
+// Where a drop relative to `targetId` ends up: the new parent and the index
+// among its children once the moved nodes have been taken out
+export const getDropLocation = (
+  items: TreeViewItem[],
+  targetId: string,
+  position: "before" | "after" | "inside",
+  movedIds: Set<string>
+): { parentId: string | null; index: number } | null => {
+  const itemMap = buildItemMap(items);
+  const target = itemMap.get(targetId);
+  if (!target) return null;
+  if (position === "inside") {
+    const children = target.children ?? [];
+    return {
+      parentId: targetId,
+      index: children.filter((child) => !movedIds.has(child.id)).length,
+    };
+  }
+  const parentId = getAncestorIds(items, targetId)[0] ?? null;
+  const siblings =
+    parentId === null ? items : (itemMap.get(parentId)?.children ?? []);
+  const remaining = siblings.filter(
+    (sibling) => sibling.id === targetId || !movedIds.has(sibling.id)
+  );
+  const targetIndex = remaining.findIndex((sibling) => sibling.id === targetId);
+  return {
+    parentId,
+    index: targetIndex + (position === "after" ? 1 : 0),
+  };
+};
+
+// Detach the given nodes and insert them, in the given order, at `index`
+// among the children of `parentId` (null for the root level). Mutates `items`
+// and returns false if the parent does not exist.
+export const moveItemsInTree = (
+  items: TreeViewItem[],
+  ids: string[],
+  parentId: string | null,
+  index: number
+): boolean => {
+  let siblings = items;
+  if (parentId !== null) {
+    const parent = buildItemMap(items).get(parentId);
+    if (!parent) return false;
+    parent.children = parent.children ?? [];
+    siblings = parent.children;
+  }
+  const movedNodes: TreeViewItem[] = [];
+  ids.forEach((id) => {
+    findAndUpdateItem(items, id, (node, nodeSiblings, nodeIndex) => {
+      nodeSiblings.splice(nodeIndex, 1);
+      movedNodes.push(node);
+    });
+  });
+  siblings.splice(Math.min(index, siblings.length), 0, ...movedNodes);
+  return true;
+};
+
+// Short label for a group of nodes in announcements, e.g. "3 items"
+export const describeItems = (items: TreeViewItem[]): string =>
+  items.length === 1 ? items[0].name : `${items.length} items`;
+
+// Nodes with the given ids in tree order, leaving out the ones below another
+// given node since they already come along with it
+export const getTopLevelItems = (
+  items: TreeViewItem[],
+  ids: Set<string>
+): TreeViewItem[] => {
+  const result: TreeViewItem[] = [];
+  const processItem = (item: TreeViewItem) => {
+    if (ids.has(item.id)) {
+      result.push(item);
+      return;
+    }
+    item.children?.forEach(processItem);
+  };
+  if (ids.size > 0) {
+    items.forEach(processItem);
+  }
+  return result;
+};
+
+// The nodes `isChecked` accepts and the folders leading to them, as a new
+// tree for read-only display. Folders are marked loaded so they don't try to
+// load in a view of their own.
+export const filterCheckedTree = (
+  items: TreeViewItem[],
+  isChecked: (item: TreeViewItem) => boolean
+): TreeViewItem[] =>
+  items.flatMap((item) => {
+    if (!item.children) return isChecked(item) ? [{ ...item }] : [];
+    const children = filterCheckedTree(item.children, isChecked);
+    if (!isChecked(item) && children.length === 0) return [];
+    return [{ ...item, children, loaded: true }];
+  });
+
+// Merge ancestor chains (root first, e.g. from a server-side search) into the
+// tree. Missing nodes are added under their parent, folders on a chain that
+// had not loaded their children get just the nodes on the chains and are
+// marked `partial`. Returns a new tree.
+export const mergeItemPaths = (
+  items: TreeViewItem[],
+  paths: TreeViewItem[][]
+): TreeViewItem[] => {
+  const newData = deepCloneData(items);
+  paths.forEach((path) => {
+    let siblings = newData;
+    let parent: TreeViewItem | null = null;
+    path.forEach((pathItem, index) => {
+      let node = siblings.find((sibling) => sibling.id === pathItem.id);
+      if (!node) {
+        node = {
+          ...pathItem,
+          children: pathItem.children ? [] : undefined,
+          loaded: pathItem.children ? false : pathItem.loaded,
+        };
+        // Nodes arriving in a folder that was checked before it loaded
+        if (parent?.pendingCheck && canToggleCheck(node)) {
+          node.checked = true;
+          node.pendingCheck = node.children ? true : undefined;
+        }
+        siblings.push(node);
+      }
+      if (index === path.length - 1) return;
+      if (!node.loaded) {
+        // Keep the check state for the rest of the children around
+        node.pendingCheck = getPendingCheck(node) || undefined;
+        node.loaded = true;
+        node.partial = true;
+        node.error = undefined;
+      }
+      node.children = node.children ?? [];
+      siblings = node.children;
+      parent = node;
+    });
+  });
+  return newData;
+};